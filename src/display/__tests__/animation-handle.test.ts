@@ -0,0 +1,117 @@
+import { describe, beforeAll, beforeEach, it, expect } from 'vitest';
+import { Display } from '../display';
+import { AnimationEvent } from '../animation-handle';
+import { HeadlessRenderer } from '../renderer/headless-renderer';
+import { TileId } from '../types';
+import { logger, LogLevel } from '../util/logger';
+
+describe('AnimationHandle', () => {
+    let display: Display;
+    let id: TileId;
+    let events: AnimationEvent[];
+
+    beforeAll(() => {
+        logger.setLogLevel(LogLevel.NONE);
+    });
+
+    beforeEach(() => {
+        display = new Display({
+            cellWidth: 12,
+            cellHeight: 24,
+            worldWidth: 20,
+            worldHeight: 10,
+            viewportWidth: 10,
+            viewportHeight: 5,
+            renderer: new HeadlessRenderer(),
+            autoStart: false
+        });
+        id = display.createTile(0, 0, '@', '#FFFFFFFF', '#000000FF');
+        events = [];
+        display.addAnimationEventCallback(event => events.push(event));
+    });
+
+    it('finishes after the whole chain has run', async () => {
+        const handle = display.addValueAnimation(id, {
+            x: { start: 0, end: 2, duration: 1, loop: false, next: { start: 2, end: 4, duration: 1, loop: false } },
+            startTime: 0
+        });
+
+        display.render(1000);
+        expect(handle.isFinished()).toBe(false);
+
+        display.render(2000);
+        await handle.finished;
+        expect(display.getTile(id)!.x).toBe(4);
+        expect(events.map(event => event.type)).toEqual(['start', 'end']);
+        expect(events[1]).toMatchObject({ kind: 'value', target: id, cancelled: false, handle });
+    });
+
+    it('reports loops and resolves when cancelled', async () => {
+        const handle = display.addSymbolAnimation(id, ['a', 'b'], 1, 0, true, false, 0);
+
+        display.render(500);
+        display.render(1200);
+        display.render(1500);
+        handle.cancel();
+
+        await handle.finished;
+        expect(events.map(event => event.type)).toEqual(['start', 'loop', 'end']);
+        expect(events[2].cancelled).toBe(true);
+
+        display.render(2000);
+        expect(display.getTile(id)!.char).toBe('b');
+    });
+
+    it('pauses and resumes where it left off', () => {
+        const handle = display.addValueAnimation(id, {
+            x: { start: 0, end: 4, duration: 1, loop: false },
+            startTime: 0
+        });
+
+        display.render(250);
+        handle.pause();
+        display.render(750);
+        expect(display.getTile(id)!.x).toBeCloseTo(1);
+
+        handle.resume();
+        display.render(1000);
+        expect(display.getTile(id)!.x).toBeCloseTo(2);
+    });
+
+    it('seeks while paused', () => {
+        const handle = display.addValueAnimation(id, {
+            x: { start: 0, end: 4, duration: 1, loop: false },
+            startTime: 0
+        });
+
+        display.render(0);
+        handle.pause();
+        handle.seek(0.75);
+        display.render(5000);
+        expect(display.getTile(id)!.x).toBeCloseTo(3);
+        expect(handle.isFinished()).toBe(false);
+
+        handle.resume();
+        display.render(5100);
+        expect(display.getTile(id)!.x).toBeCloseTo(3.4);
+    });
+
+    it('finishes the previous handle when its animation is replaced or its tile removed', async () => {
+        const first = display.addColorAnimation(id, { fg: { start: '#000000FF', end: '#FFFFFFFF', duration: 1 } });
+        const second = display.addColorAnimation(id, { fg: { start: '#000000FF', end: '#FF0000FF', duration: 1 } });
+
+        await first.finished;
+        expect(second.isFinished()).toBe(false);
+
+        display.removeTile(id);
+        await second.finished;
+        expect(events.filter(event => event.type === 'end').map(event => event.cancelled)).toEqual([true, true]);
+    });
+
+    it('hands back a finished handle for a missing tile', async () => {
+        const handle = display.addSymbolAnimation('missing', ['a'], 1);
+
+        await handle.finished;
+        expect(handle.isFinished()).toBe(true);
+    });
+});
@@ -0,0 +1,82 @@
+import { describe, beforeAll, beforeEach, it, expect } from 'vitest';
+import { Display } from '../display';
+import { exportAnsi } from '../export/ansi-exporter';
+import { HeadlessRenderer } from '../renderer/headless-renderer';
+import { FillDirection } from '../types';
+import { logger, LogLevel } from '../util/logger';
+
+const stripAnsi = (text: string) => text.replace(/\x1b\[[0-9;]*m/g, '');
+
+describe('exportAnsi', () => {
+    let display: Display;
+
+    beforeAll(() => {
+        logger.setLogLevel(LogLevel.NONE);
+    });
+
+    beforeEach(() => {
+        display = new Display({
+            cellWidth: 12,
+            cellHeight: 24,
+            worldWidth: 8,
+            worldHeight: 4,
+            viewportWidth: 4,
+            viewportHeight: 2,
+            renderer: new HeadlessRenderer(),
+            autoStart: false
+        });
+    });
+
+    it('renders the viewport one line per row', () => {
+        display.createString(0, 0, 'abcdefgh');
+        display.createString(0, 1, 'ijklmnop');
+        display.setViewport(2, 0);
+
+        const lines = exportAnsi(display).split('\n');
+
+        expect(lines.map(stripAnsi)).toEqual(['cdef', 'klmn']);
+        expect(lines.every(line => line.endsWith('\x1b[0m'))).toBe(true);
+    });
+
+    it('uses 24-bit colors from the topmost tile', () => {
+        display.createTile(0, 0, '.', '#666666FF', '#112233FF', 1);
+        display.createTile(0, 0, '@', '#FF8800FF', '#00000000', 2);
+
+        const output = exportAnsi(display, { region: 'world' });
+
+        expect(output.startsWith('\x1b[38;2;255;136;0m\x1b[48;2;17;34;51m@')).toBe(true);
+    });
+
+    it('leaves out hidden layers and stacks the rest by layer', () => {
+        display.addLayer('ui', { order: 1 });
+        display.addLayer('fog', { order: 2, visible: false });
+        display.createTile(0, 0, 'u', '#FFFFFFFF', '#00000000', 1, { layer: 'ui' });
+        display.createTile(0, 0, 'g', '#FFFFFFFF', '#00000000', 5);
+        display.createTile(1, 0, 'f', '#FFFFFFFF', '#00000000', 1, { layer: 'fog' });
+
+        expect(stripAnsi(exportAnsi(display)).split('\n')[0]).toBe('u   ');
+
+        display.setLayerOptions('fog', { visible: true });
+        expect(stripAnsi(exportAnsi(display)).split('\n')[0]).toBe('uf  ');
+    });
+
+    it('falls back to the 256-color palette', () => {
+        display.createTile(0, 0, '#', '#FF0000FF', '#808080FF');
+
+        const output = exportAnsi(display, { colorMode: '256' });
+
+        expect(output.startsWith('\x1b[38;5;196m\x1b[48;5;244m#')).toBe(true);
+    });
+
+    it('approximates partial backgrounds with half blocks', () => {
+        display.createTile(0, 0, ' ', '#00000000', '#0000FFFF', 1);
+        display.createTile(0, 0, ' ', '#00000000', '#FF0000FF', 2, {
+            bgPercent: 0.5,
+            fillDirection: FillDirection.BOTTOM
+        });
+
+        const output = exportAnsi(display);
+
+        expect(output.startsWith('\x1b[38;2;255;0;0m\x1b[48;2;0;0;255m▄')).toBe(true);
+    });
+});
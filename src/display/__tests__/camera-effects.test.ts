@@ -0,0 +1,100 @@
+import { describe, beforeAll, beforeEach, it, expect } from 'vitest';
+import { CameraEffects } from '../camera-effects';
+import { Display } from '../display';
+import { HeadlessRenderer } from '../renderer/headless-renderer';
+import { Viewport } from '../types';
+import { logger, LogLevel } from '../util/logger';
+
+class PresentRecorder extends HeadlessRenderer {
+    public presented: Viewport[] = [];
+
+    public present(viewport: Viewport): void {
+        super.present(viewport);
+        this.presented.push({ ...viewport });
+    }
+}
+
+describe('CameraEffects', () => {
+    let effects: CameraEffects;
+
+    beforeEach(() => {
+        effects = new CameraEffects();
+    });
+
+    it('kicks and settles back', () => {
+        effects.kick(2, -1, { duration: 0.1, easing: t => t });
+
+        expect(effects.update(0)).toEqual({ x: 2, y: -1, zoom: 1 });
+        expect(effects.update(50)).toEqual({ x: 1, y: -0.5, zoom: 1 });
+        expect(effects.update(100)).toEqual({ x: 0, y: 0, zoom: 1 });
+        expect(effects.isActive()).toBe(false);
+    });
+
+    it('punches the zoom', () => {
+        effects.zoomPunch(0.5, { duration: 0.2, easing: t => t });
+
+        expect(effects.update(0).zoom).toBeCloseTo(1.5);
+        expect(effects.update(100).zoom).toBeCloseTo(1.25);
+    });
+
+    it('decays shake trauma and keeps offsets within range', () => {
+        effects.shake({ trauma: 0.6, decay: 2, maxOffset: 3 });
+        effects.shake({ trauma: 0.6 });
+
+        expect(effects.getTrauma()).toBe(1);
+
+        for (let t = 0; t <= 512; t += 16) {
+            const offset = effects.update(t);
+            expect(Math.abs(offset.x)).toBeLessThanOrEqual(3);
+            expect(Math.abs(offset.y)).toBeLessThanOrEqual(3);
+        }
+
+        expect(effects.isActive()).toBe(false);
+        expect(effects.update(600)).toEqual({ x: 0, y: 0, zoom: 1 });
+    });
+});
+
+describe('Display camera effects', () => {
+    let renderer: PresentRecorder;
+    let display: Display;
+
+    beforeAll(() => {
+        logger.setLogLevel(LogLevel.NONE);
+    });
+
+    beforeEach(() => {
+        renderer = new PresentRecorder();
+        display = new Display({
+            cellWidth: 12,
+            cellHeight: 24,
+            worldWidth: 40,
+            worldHeight: 20,
+            viewportWidth: 10,
+            viewportHeight: 6,
+            renderer,
+            autoStart: false
+        });
+        display.setViewport(10, 5);
+    });
+
+    it('offsets the presented viewport without touching tiles or the viewport', () => {
+        const id = display.createTile(12, 6, '@', '#FFFFFFFF', '#00000000');
+        display.kick(1, 0, { duration: 0.1, easing: t => t });
+        display.render(0);
+
+        expect(renderer.presented[0]).toEqual({ x: 11, y: 5, width: 10, height: 6 });
+        expect(display.getViewport()).toMatchObject({ x: 10, y: 5 });
+        expect(display.getTile(id)).toMatchObject({ x: 12, y: 6 });
+
+        display.render(100);
+
+        expect(renderer.presented[1]).toEqual({ x: 10, y: 5, width: 10, height: 6 });
+    });
+
+    it('zooms around the viewport center', () => {
+        display.zoomPunch(1, { duration: 1, easing: () => 0 });
+        display.render(0);
+
+        expect(renderer.presented[0]).toEqual({ x: 12.5, y: 6.5, width: 5, height: 3 });
+    });
+});
@@ -0,0 +1,161 @@
+import { describe, beforeAll, beforeEach, it, expect } from 'vitest';
+import { Camera } from '../camera';
+import { Display } from '../display';
+import { HeadlessRenderer } from '../renderer/headless-renderer';
+import { Viewport } from '../types';
+import { logger, LogLevel } from '../util/logger';
+
+describe('Camera', () => {
+    const viewport: Viewport = { x: 0, y: 0, width: 10, height: 6 };
+    const noTiles = () => undefined;
+
+    beforeAll(() => {
+        logger.setLogLevel(LogLevel.NONE);
+    });
+
+    it('leaves the viewport alone when not following anything', () => {
+        const camera = new Camera();
+
+        expect(camera.update(0, viewport, noTiles)).toBeNull();
+    });
+
+    it('centers on a point right away without smoothing', () => {
+        const camera = new Camera({ smoothing: 'none' });
+        camera.followPoint(20, 10);
+
+        expect(camera.update(0, viewport, noTiles)).toEqual({ x: 15, y: 7 });
+    });
+
+    it('eases towards the target with lerp', () => {
+        const camera = new Camera({ smoothing: 'lerp', lerp: 0.5 });
+        camera.followPoint(25, 3);
+        camera.update(0, viewport, noTiles);
+
+        const position = camera.update(1000 / 60, viewport, noTiles)!;
+
+        expect(position.x).toBeCloseTo(10);
+        expect(position.y).toBe(0);
+    });
+
+    it('settles a spring on the target', () => {
+        const camera = new Camera({ smoothing: 'spring' });
+        camera.followPoint(25, 3);
+
+        let current = { ...viewport };
+        for (let t = 0; t <= 3000; t += 16) {
+            current = { ...current, ...camera.update(t, current, noTiles) };
+        }
+
+        expect(current.x).toBeCloseTo(20, 2);
+        expect(current.y).toBeCloseTo(0, 2);
+    });
+
+    it('ignores movement inside the dead zone', () => {
+        const camera = new Camera({ smoothing: 'none', deadZone: { width: 4, height: 2 } });
+
+        camera.followPoint(6.5, 3);
+        expect(camera.update(0, viewport, noTiles)).toEqual({ x: 0, y: 0 });
+
+        camera.followPoint(9, 3);
+        expect(camera.update(16, viewport, noTiles)).toEqual({ x: 2, y: 0 });
+    });
+
+    it('clamps to its bounds', () => {
+        const camera = new Camera({ smoothing: 'none', bounds: { x: 0, y: 0, width: 30, height: 4 } });
+        camera.followPoint(100, 100);
+
+        expect(camera.update(0, viewport, noTiles)).toEqual({ x: 20, y: -1 });
+    });
+
+    describe('on a Display', () => {
+        let display: Display;
+
+        beforeEach(() => {
+            display = new Display({
+                cellWidth: 12,
+                cellHeight: 24,
+                worldWidth: 40,
+                worldHeight: 20,
+                viewportWidth: 10,
+                viewportHeight: 6,
+                camera: { smoothing: 'lerp', lerp: 0.25 },
+                renderer: new HeadlessRenderer(),
+                autoStart: false
+            });
+        });
+
+        it('follows a tile with fractional viewport positions', () => {
+            const id = display.createTile(20, 10, '@', '#FFFFFFFF', '#00000000');
+            display.getCamera().follow(id, true);
+            display.render(0);
+
+            expect(display.getViewport()).toMatchObject({ x: 15.5, y: 7.5 });
+
+            display.moveTile(id, 24, 10);
+            display.render(1000 / 60);
+
+            expect(display.getViewport().x).toBeCloseTo(16.5);
+        });
+
+        it('stays inside the world', () => {
+            const id = display.createTile(39, 19, '@', '#FFFFFFFF', '#00000000');
+            display.getCamera().follow(id, true);
+            display.render(0);
+
+            expect(display.getViewport()).toMatchObject({ x: 30, y: 14 });
+        });
+    });
+});
+
+describe('Viewport zoom', () => {
+    let display: Display;
+
+    beforeAll(() => {
+        logger.setLogLevel(LogLevel.NONE);
+    });
+
+    beforeEach(() => {
+        display = new Display({
+            cellWidth: 12,
+            cellHeight: 24,
+            worldWidth: 40,
+            worldHeight: 20,
+            viewportWidth: 10,
+            viewportHeight: 6,
+            renderer: new HeadlessRenderer(),
+            autoStart: false
+        });
+        display.setViewport(10, 5);
+    });
+
+    it('zooms around the viewport center by default', () => {
+        display.setZoom(2);
+
+        expect(display.getViewport()).toEqual({ x: 12.5, y: 6.5, width: 10, height: 6, zoom: 2 });
+    });
+
+    it('keeps the anchor point in place', () => {
+        display.setZoom(0.5, { anchorX: 10, anchorY: 5 });
+
+        expect(display.getViewport()).toMatchObject({ x: 10, y: 5, zoom: 0.5 });
+    });
+
+    it('animates zoom with easing', () => {
+        display.setZoom(3, { duration: 1, easing: t => t });
+        display.render(0);
+        display.render(500);
+
+        expect(display.getZoom()).toBeCloseTo(2);
+
+        display.render(1000);
+
+        expect(display.getZoom()).toBe(3);
+    });
+
+    it('centers the world when zoomed out past it', () => {
+        display.setZoom(0.2);
+
+        // 50x30 cells visible for a 40x20 world
+        expect(display.getViewport()).toMatchObject({ x: -5, y: -5 });
+    });
+});
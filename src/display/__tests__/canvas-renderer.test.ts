@@ -0,0 +1,88 @@
+import { describe, beforeAll, beforeEach, afterEach, it, expect, vi } from 'vitest';
+import { Display } from '../display';
+import { CanvasRenderer } from '../renderer/canvas-renderer';
+import { BlendMode, FillDirection, Tile } from '../types';
+import { logger, LogLevel } from '../util/logger';
+import { FakeCanvas, stubCanvasGlobals } from './fake-canvas';
+
+function makeTile(x: number, y: number, backgroundColor: string): Tile {
+    return {
+        id: `${x},${y}`,
+        x,
+        y,
+        char: ' ',
+        color: '#00000000',
+        backgroundColor,
+        zIndex: 0,
+        bgPercent: 1,
+        fillDirection: FillDirection.BOTTOM,
+        offsetSymbolX: 0,
+        offsetSymbolY: 0,
+        scaleSymbolX: 1,
+        scaleSymbolY: 1,
+        rotation: 0,
+        blendMode: BlendMode.SourceOver
+    };
+}
+
+describe('CanvasRenderer', () => {
+    let display: FakeCanvas;
+    let renderer: CanvasRenderer;
+    const viewport = { x: 0, y: 0, width: 4, height: 4 };
+
+    beforeAll(() => {
+        logger.setLogLevel(LogLevel.NONE);
+    });
+
+    beforeEach(() => {
+        display = stubCanvasGlobals().display;
+        renderer = new CanvasRenderer('canvas', { chunkSize: 2 });
+        renderer.initialize({
+            cellWidth: 2,
+            cellHeight: 2,
+            viewportWidth: 4,
+            viewportHeight: 4,
+            worldWidth: 4,
+            worldHeight: 4
+        });
+        renderer.beginFrame(viewport);
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('erases a cleared rect, across chunks', () => {
+        renderer.drawTile(makeTile(1, 1, '#FF0000FF'));
+        renderer.drawTile(makeTile(2, 1, '#00FF00FF'));
+        renderer.present(viewport);
+        expect(display.getContext().getPixel(2, 2)).toBe('#FF0000FF');
+        expect(display.getContext().getPixel(4, 2)).toBe('#00FF00FF');
+
+        renderer.clearRect({ x: 1, y: 1, width: 2, height: 1 });
+        renderer.present(viewport);
+        expect(display.getContext().countPixels(0, 0, 8, 8)).toBe(0);
+    });
+
+    it('erases the cell a tile moved away from', () => {
+        const world = new Display({
+            cellWidth: 2,
+            cellHeight: 2,
+            worldWidth: 4,
+            worldHeight: 4,
+            viewportWidth: 4,
+            viewportHeight: 4,
+            renderer,
+            autoStart: false
+        });
+        const id = world.createTile(1, 1, ' ', '#00000000', '#FF0000FF');
+        world.render(0);
+        expect(display.getContext().getPixel(2, 2)).toBe('#FF0000FF');
+
+        // Nothing is left in the old cell to draw over it, so only the clear removes the color
+        world.moveTile(id, 3, 3);
+        world.render(16);
+        expect(display.getContext().countPixels(0, 0, 6, 6)).toBe(0);
+        expect(display.getContext().getPixel(6, 6)).toBe('#FF0000FF');
+    });
+});
@@ -0,0 +1,123 @@
+import { describe, beforeEach, it, expect } from 'vitest';
+import { CellIndex } from '../cell-index';
+import { BlendMode, FillDirection, Tile } from '../types';
+
+const makeTile = (id: string, x: number, y: number): Tile => ({
+    id,
+    x,
+    y,
+    char: '@',
+    color: '#FFFFFFFF',
+    backgroundColor: '#000000FF',
+    zIndex: 1,
+    bgPercent: 1,
+    fillDirection: FillDirection.BOTTOM,
+    offsetSymbolX: 0,
+    offsetSymbolY: 0,
+    scaleSymbolX: 1,
+    scaleSymbolY: 1,
+    rotation: 0,
+    blendMode: BlendMode.SourceOver
+});
+
+describe('CellIndex', () => {
+    let index: CellIndex;
+
+    beforeEach(() => {
+        index = new CellIndex();
+    });
+
+    it('finds tiles by cell', () => {
+        const a = makeTile('a', 1, 2);
+        const b = makeTile('b', 1, 2);
+        const c = makeTile('c', 2, 2);
+        [a, b, c].forEach(tile => index.add(tile));
+
+        expect(index.getTilesAt(1, 2)).toEqual([a, b]);
+        expect(index.getTilesAt(2, 2)).toEqual([c]);
+        expect(index.getTilesAt(3, 2)).toEqual([]);
+    });
+
+    it('keeps stacks ordered by zIndex, then creation order', () => {
+        const top = { ...makeTile('top', 0, 0), zIndex: 5 };
+        const first = makeTile('first', 0, 0);
+        const bottom = { ...makeTile('bottom', 0, 0), zIndex: -1 };
+        const second = makeTile('second', 0, 0);
+        [top, first, bottom, second].forEach(tile => index.add(tile));
+
+        expect(index.getTilesAt(0, 0).map(tile => tile.id)).toEqual(['bottom', 'first', 'second', 'top']);
+    });
+
+    it('reorders a tile after its zIndex changes', () => {
+        const a = makeTile('a', 0, 0);
+        const b = makeTile('b', 0, 0);
+        [a, b].forEach(tile => index.add(tile));
+
+        a.zIndex = 2;
+        index.reorder(a);
+
+        expect(index.getTilesAt(0, 0)).toEqual([b, a]);
+    });
+
+    it('keeps creation order when a tile moves into an occupied cell', () => {
+        const older = makeTile('older', 1, 0);
+        const newer = makeTile('newer', 0, 0);
+        [older, newer].forEach(tile => index.add(tile));
+
+        older.x = 0;
+        index.update(older);
+
+        expect(index.getTilesAt(0, 0)).toEqual([older, newer]);
+    });
+
+    it('indexes fractional positions under the floor of their coordinates', () => {
+        const tile = makeTile('a', 3.7, 1.2);
+        index.add(tile);
+
+        expect(index.getTilesAt(3, 1)).toEqual([tile]);
+    });
+
+    it('moves tiles between cells on update', () => {
+        const tile = makeTile('a', 0, 0);
+        index.add(tile);
+
+        tile.x = 5;
+        tile.y = -3;
+        index.update(tile);
+
+        expect(index.getTilesAt(0, 0)).toEqual([]);
+        expect(index.getTilesAt(5, -3)).toEqual([tile]);
+    });
+
+    it('removes tiles', () => {
+        const tile = makeTile('a', 0, 0);
+        index.add(tile);
+        index.remove(tile);
+
+        expect(index.getTilesAt(0, 0)).toEqual([]);
+    });
+
+    it('keeps far-apart cells separate', () => {
+        const limit = 1 << 20;
+        const a = makeTile('a', limit, 0);
+        const b = makeTile('b', -limit, 1);
+        const c = makeTile('c', 2 ** 40, -(2 ** 40));
+        const d = makeTile('d', 0, limit * 2);
+        [a, b, c, d].forEach(tile => index.add(tile));
+
+        expect(index.getTilesAt(limit, 0)).toEqual([a]);
+        expect(index.getTilesAt(-limit, 1)).toEqual([b]);
+        expect(index.getTilesAt(-limit, 0)).toEqual([]);
+        expect(index.getTilesAt(2 ** 40, -(2 ** 40))).toEqual([c]);
+        expect(index.getTilesAt(0, limit * 2)).toEqual([d]);
+        expect(index.getTilesAt(1, 0)).toEqual([]);
+    });
+
+    it('collects tiles in a rectangle', () => {
+        const inside = [makeTile('a', 1, 1), makeTile('b', 2, 2)];
+        const outside = makeTile('c', 3, 1);
+        [...inside, outside].forEach(tile => index.add(tile));
+
+        expect(index.getTilesInRect(1, 1, 2, 2)).toEqual(inside);
+    });
+});
@@ -0,0 +1,90 @@
+import { describe, beforeEach, afterEach, it, expect, vi } from 'vitest';
+import { CanvasRenderer } from '../renderer/canvas-renderer';
+import { ChunkedCanvas } from '../renderer/chunked-canvas';
+import { FakeCanvas, stubCanvasGlobals } from './fake-canvas';
+
+describe('ChunkedCanvas', () => {
+    let created: FakeCanvas[];
+    let buffer: ChunkedCanvas;
+
+    beforeEach(() => {
+        created = stubCanvasGlobals().created;
+        // 10x10 cells of 2x3 pixels in 4x4 chunks
+        buffer = new ChunkedCanvas(2, 3, 4, { width: 10, height: 10 }, () => {});
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    it('creates chunks only when first used', () => {
+        expect(buffer.getChunksInRect(0, 0, 10, 10)).toEqual([]);
+        expect(created.length).toBe(0);
+
+        expect(buffer.ensureChunksInRect(0, 0, 1, 1, 0).length).toBe(1);
+        expect(buffer.ensureChunksInRect(0, 0, 1, 1, 0).length).toBe(0);
+        expect(buffer.getChunksInRect(0, 0, 10, 10).length).toBe(1);
+        expect(buffer.size).toBe(1);
+        expect(created.length).toBe(1);
+    });
+
+    it('finds every chunk a rect crosses into', () => {
+        const chunks = buffer.ensureChunksInRect(3, 3, 2, 2, 0);
+        expect(chunks.map(({ cx, cy, originX, originY }) => ({ cx, cy, originX, originY }))).toEqual([
+            { cx: 0, cy: 0, originX: 0, originY: 0 },
+            { cx: 1, cy: 0, originX: 8, originY: 0 },
+            { cx: 0, cy: 1, originX: 0, originY: 12 },
+            { cx: 1, cy: 1, originX: 8, originY: 12 }
+        ]);
+        expect(buffer.getChunksInRect(4, 4, 1, 1)).toEqual([chunks[3]]);
+        expect(buffer.getChunkRect(chunks[3])).toEqual({ x: 4, y: 4, width: 4, height: 4 });
+    });
+
+    it('makes chunks at the world edge only as big as what is left', () => {
+        const [corner] = buffer.ensureChunksInRect(9, 9, 5, 5, 0);
+        expect(buffer.size).toBe(1);
+        expect(corner.canvas.width).toBe(4);
+        expect(corner.canvas.height).toBe(6);
+        expect(buffer.getChunkRect(corner)).toEqual({ x: 8, y: 8, width: 2, height: 2 });
+    });
+
+    it('drops chunks that have been out of view too long', () => {
+        const [old] = buffer.ensureChunksInRect(0, 0, 1, 1, 0);
+        buffer.ensureChunksInRect(4, 0, 1, 1, 500);
+
+        expect(buffer.evict(1000, 800)).toBe(1);
+        expect(old.canvas.width).toBe(0);
+        expect(buffer.getChunksInRect(0, 0, 1, 1)).toEqual([]);
+        expect(buffer.size).toBe(1);
+    });
+
+    it('has the renderer redraw a chunk that comes back after eviction', () => {
+        const invalidated: number[][] = [];
+        let now = 0;
+        vi.spyOn(performance, 'now').mockImplementation(() => now);
+
+        const renderer = new CanvasRenderer('canvas', { chunkSize: 4, chunkEvictionTime: 100 });
+        renderer.initialize({
+            cellWidth: 2,
+            cellHeight: 3,
+            viewportWidth: 3,
+            viewportHeight: 3,
+            worldWidth: 10,
+            worldHeight: 10,
+            invalidateRegion: (x, y, width, height) => invalidated.push([x, y, width, height])
+        });
+
+        renderer.beginFrame({ x: 0, y: 0, width: 3, height: 3 });
+        expect(invalidated).toEqual([[0, 0, 4, 4]]);
+
+        // Scroll away until the first chunk is dropped, then come back to it
+        now = 50;
+        renderer.beginFrame({ x: 6, y: 6, width: 3, height: 3 });
+        now = 200;
+        renderer.beginFrame({ x: 6, y: 6, width: 3, height: 3 });
+        invalidated.length = 0;
+        renderer.beginFrame({ x: 0, y: 0, width: 3, height: 3 });
+        expect(invalidated).toEqual([[0, 0, 4, 4]]);
+    });
+});
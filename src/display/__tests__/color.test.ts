@@ -0,0 +1,208 @@
+import { describe, it, expect } from 'vitest';
+import { Display } from '../display';
+import { HeadlessRenderer } from '../renderer/headless-renderer';
+import { contrast, darken, interpolateColor, lighten, mix, normalizeColor, parseColor, parseHexColor, sampleGradient, withAlpha } from '../util/color';
+import { logger, LogLevel } from '../util/logger';
+
+describe('Color interpolation', () => {
+    it('lerps raw sRGB bytes by default', () => {
+        expect(interpolateColor('#FF0000FF', '#00FF00FF', 0.5)).toBe('#808000ff');
+        expect(interpolateColor('#000000FF', '#FFFFFF00', 0.5, 'srgb')).toBe('#80808080');
+    });
+
+    it('mixes light in linear RGB', () => {
+        expect(interpolateColor('#000000FF', '#FFFFFFFF', 0.5, 'linear-rgb')).toBe('#bcbcbcff');
+    });
+
+    it('takes the short way round the hue wheel', () => {
+        // Red to blue goes through magenta rather than green
+        expect(interpolateColor('#FF0000FF', '#0000FFFF', 0.5, 'hsl')).toBe('#ff00ffff');
+
+        const viaOklch = parseHexColor(interpolateColor('#FF0000FF', '#0000FFFF', 0.5, 'oklch'));
+        expect(viaOklch.g).toBeLessThan(viaOklch.r);
+        expect(viaOklch.g).toBeLessThan(viaOklch.b);
+    });
+
+    it('keeps midpoints brighter in OKLab than in sRGB', () => {
+        const lightness = (color: string) => {
+            const { r, g, b } = parseHexColor(color);
+            return r + g + b;
+        };
+        const srgb = interpolateColor('#FF0000FF', '#00FF00FF', 0.5);
+        const oklab = interpolateColor('#FF0000FF', '#00FF00FF', 0.5, 'oklab');
+
+        expect(lightness(oklab)).toBeGreaterThan(lightness(srgb));
+        expect(interpolateColor('#336699FF', '#336699FF', 0.3, 'oklab')).toBe('#336699ff');
+    });
+
+    it('fades from grey without picking up another hue', () => {
+        const color = parseHexColor(interpolateColor('#808080FF', '#FF0000FF', 0.5, 'oklch'));
+        expect(color.r).toBeGreaterThan(color.g);
+        expect(Math.abs(color.g - color.b)).toBeLessThan(16);
+    });
+
+    it('stays in range when easing overshoots', () => {
+        expect(interpolateColor('#000000FF', '#FFFFFFFF', 1.5)).toBe('#ffffffff');
+        expect(interpolateColor('#000000FF', '#FFFFFFFF', -0.5, 'oklab')).toBe('#000000ff');
+    });
+
+    it('samples multi-stop gradients', () => {
+        const stops = [
+            { offset: 0, color: '#000000FF' },
+            { offset: 0.5, color: '#FF0000FF' },
+            { offset: 1, color: '#FFFF00FF' }
+        ];
+
+        expect(sampleGradient(stops, 0.25)).toBe('#800000ff');
+        expect(sampleGradient(stops, 0.5)).toBe('#ff0000ff');
+        expect(sampleGradient(stops, 0.75)).toBe('#ff8000ff');
+        expect(sampleGradient(stops, 2)).toBe('#FFFF00FF');
+    });
+
+    it('animates through stops in the chosen space', () => {
+        logger.setLogLevel(LogLevel.NONE);
+        const display = new Display({
+            cellWidth: 12,
+            cellHeight: 24,
+            worldWidth: 10,
+            worldHeight: 10,
+            viewportWidth: 10,
+            viewportHeight: 10,
+            renderer: new HeadlessRenderer(),
+            autoStart: false
+        });
+        const id = display.createTile(0, 0, '@', '#000000FF', '#000000FF');
+
+        display.addColorAnimation(id, {
+            fg: {
+                start: '#000000FF',
+                end: '#FFFFFFFF',
+                stops: [{ offset: 0.5, color: '#FF0000FF' }],
+                duration: 1,
+                loop: false,
+                space: 'hsl'
+            },
+            startTime: 0
+        });
+
+        display.render(500);
+        expect(display.getTile(id)!.color).toBe('#ff0000ff');
+        display.render(250);
+        expect(display.getTile(id)!.color).toBe('#602020ff');
+    });
+});
+
+describe('Color parsing', () => {
+    it('reads every hex length', () => {
+        expect(normalizeColor('#f80')).toBe('#ff8800ff');
+        expect(normalizeColor('#F808')).toBe('#ff880088');
+        expect(normalizeColor('#FF8800')).toBe('#ff8800ff');
+        expect(normalizeColor('#FF880080')).toBe('#FF880080');
+        expect(normalizeColor('#FF88')).toBe('#ffff8888');
+        expect(normalizeColor('#FF88000')).toBeUndefined();
+        expect(normalizeColor('#GG0000')).toBeUndefined();
+    });
+
+    it('reads rgb() and hsl() in either syntax', () => {
+        expect(parseColor('rgb(255, 128, 0)')).toEqual({ r: 255, g: 128, b: 0, a: 255 });
+        expect(parseColor('rgba(255, 128, 0, 0.5)')).toEqual({ r: 255, g: 128, b: 0, a: 128 });
+        expect(parseColor('rgb(100% 50% 0% / 25%)')).toEqual({ r: 255, g: 128, b: 0, a: 64 });
+        expect(normalizeColor('hsl(120, 100%, 50%)')).toBe('#00ff00ff');
+        expect(normalizeColor('hsla(0.5turn 100% 25% / 0.5)')).toBe('#00808080');
+        expect(normalizeColor('HSL(-120deg, 100%, 50%)')).toBe('#0000ffff');
+
+        expect(parseColor('rgb(255, 0)')).toBeUndefined();
+        expect(parseColor('rgb(255, 0, red)')).toBeUndefined();
+        expect(parseColor('hsl(10px, 50%, 50%)')).toBeUndefined();
+    });
+
+    it('reads named colors', () => {
+        expect(normalizeColor('rebeccapurple')).toBe('#663399ff');
+        expect(normalizeColor(' Tomato ')).toBe('#ff6347ff');
+        expect(normalizeColor('transparent')).toBe('#00000000');
+        expect(normalizeColor('blurple')).toBeUndefined();
+    });
+
+    it('interpolates between any forms', () => {
+        expect(interpolateColor('red', '#00f', 0.5)).toBe('#800080ff');
+        expect(parseHexColor('nonsense')).toEqual({ r: 0, g: 0, b: 0, a: 0 });
+    });
+});
+
+describe('Color helpers', () => {
+    it('lightens, darkens and mixes', () => {
+        expect(lighten('#800000', 0.25)).toBe('#ff0000ff');
+        expect(darken('#ff0000', 0.25)).toBe('#800000ff');
+        expect(darken('#ff000080', 1)).toBe('#00000080');
+        expect(mix('black', 'white')).toBe('#808080ff');
+        expect(mix('black', 'white', 0.25)).toBe('#404040ff');
+    });
+
+    it('replaces alpha', () => {
+        expect(withAlpha('red', 0.5)).toBe('#ff000080');
+        expect(withAlpha('#FF000080', 1)).toBe('#ff0000ff');
+    });
+
+    it('measures contrast as WCAG does', () => {
+        expect(contrast('black', 'white')).toBeCloseTo(21, 6);
+        expect(contrast('white', 'black')).toBeCloseTo(21, 6);
+        expect(contrast('#777', '#777')).toBe(1);
+        expect(contrast('#767676', 'white')).toBeGreaterThan(4.5);
+    });
+});
+
+describe('Display color validation', () => {
+    const createDisplay = () => {
+        logger.setLogLevel(LogLevel.NONE);
+        return new Display({
+            cellWidth: 12,
+            cellHeight: 24,
+            worldWidth: 10,
+            worldHeight: 10,
+            viewportWidth: 10,
+            viewportHeight: 10,
+            renderer: new HeadlessRenderer(),
+            autoStart: false
+        });
+    };
+
+    it('normalizes tile colors and falls back for invalid ones', () => {
+        const display = createDisplay();
+        const id = display.createTile(0, 0, '@', 'orange', 'rgb(0 0 0 / 50%)');
+        expect(display.getTile(id)!.color).toBe('#ffa500ff');
+        expect(display.getTile(id)!.backgroundColor).toBe('#00000080');
+
+        display.updateTileColor(id, 'not a color');
+        expect(display.getTile(id)!.color).toBe('#ffa500ff');
+
+        const invalid = display.createTile(1, 0, '@', 'not a color', '#12');
+        expect(display.getTile(invalid)!.color).toBe('#FFFFFFFF');
+        expect(display.getTile(invalid)!.backgroundColor).toBe('#00000000');
+    });
+
+    it('refuses animations through invalid colors', () => {
+        const display = createDisplay();
+        const id = display.createTile(0, 0, '@', '#000000FF', '#000000FF');
+
+        const handle = display.addColorAnimation(id, {
+            fg: { start: 'black', end: 'white', duration: 1, next: { start: 'white', end: 'whiteish', duration: 1 } },
+            startTime: 0
+        });
+        expect(handle.isFinished()).toBe(true);
+
+        display.addKeyframeAnimation(id, {
+            color: [{ time: 0, value: '#000' }, { time: 1, value: 'white' }],
+            backgroundColor: [{ time: 0, value: '#000' }, { time: 1, value: 'chartreusey' }],
+            startTime: 0
+        });
+        display.render(500);
+        expect(display.getTile(id)!.color).toBe('#808080ff');
+        expect(display.getTile(id)!.backgroundColor).toBe('#000000FF');
+    });
+
+    it('reads any color in text markup', () => {
+        const display = createDisplay();
+        const ids = display.createString(0, 0, '{#0f0}a{/}{rgb(0, 0, 255)}b{/}{teal}c{/}{nope}d{/}');
+        expect(ids.map(id => display.getTile(id)!.color)).toEqual(['#00ff00ff', '#0000ffff', '#008080ff', '#FFFFFFFF']);
+    });
+});
@@ -0,0 +1,108 @@
+import { describe, beforeEach, it, expect } from 'vitest';
+import { DirtyMask } from '../dirty-mask';
+import { BlendMode, FillDirection, Tile } from '../types';
+
+const makeTile = (x: number, y: number, noClip = false): Tile => ({
+    id: 'tile',
+    x,
+    y,
+    char: '@',
+    color: '#FFFFFFFF',
+    backgroundColor: '#000000FF',
+    zIndex: 1,
+    bgPercent: 1,
+    fillDirection: FillDirection.BOTTOM,
+    offsetSymbolX: 0,
+    offsetSymbolY: 0,
+    scaleSymbolX: 1,
+    scaleSymbolY: 1,
+    rotation: 0,
+    noClip,
+    blendMode: BlendMode.SourceOver
+});
+
+describe('DirtyMask', () => {
+    let mask: DirtyMask;
+
+    beforeEach(() => {
+        mask = new DirtyMask(8, 4);
+    });
+
+    it('marks each cell once and clears them all', () => {
+        mask.markDirty(makeTile(2, 1));
+        mask.markDirty(makeTile(2, 1));
+        mask.markDirty(makeTile(0, 3));
+
+        expect(mask.getDirtyCount()).toBe(2);
+        expect(mask.getDirtyCells()).toEqual([{ x: 2, y: 1 }, { x: 0, y: 3 }]);
+        expect(mask.isDirty(2, 1)).toBe(true);
+
+        mask.clear();
+
+        expect(mask.hasDirtyTiles()).toBe(false);
+        expect(mask.isDirty(2, 1)).toBe(false);
+    });
+
+    it('marks the cells around a fractional tile', () => {
+        mask.markDirty(makeTile(1.5, 1));
+
+        expect(mask.getDirtyCells()).toEqual([
+            { x: 1, y: 1 }, { x: 2, y: 1 },
+            { x: 1, y: 2 }, { x: 2, y: 2 }
+        ]);
+    });
+
+    it('sorts the dirty cells only when more have been marked', () => {
+        mask.markDirty(makeTile(3, 2));
+        mask.markDirty(makeTile(1, 0));
+        const cells = mask.getDirtyCells();
+
+        expect(mask.getDirtyCells()).toBe(cells);
+
+        mask.markDirty(makeTile(0, 1));
+        expect(mask.getDirtyCells()).toEqual([{ x: 1, y: 0 }, { x: 0, y: 1 }, { x: 3, y: 2 }]);
+    });
+
+    it('ignores cells outside a bounded world', () => {
+        mask.markDirty(makeTile(0, 0, true));
+        mask.markRegionDirty(6, 2, 10, 10);
+
+        expect(mask.getDirtyCount()).toBe(13);
+        expect(mask.getDirtyCells().every(({ x, y }) => x >= 0 && y >= 0 && x < 8 && y < 4)).toBe(true);
+    });
+
+    it('accepts negative cells when unbounded', () => {
+        const unbounded = new DirtyMask(8, 4, true);
+        unbounded.markDirty(makeTile(-70, -3));
+        unbounded.markDirty(makeTile(5, 200));
+
+        expect(unbounded.getDirtyCells()).toEqual([{ x: -70, y: -3 }, { x: 5, y: 200 }]);
+
+        unbounded.clear();
+
+        expect(unbounded.isDirty(-70, -3)).toBe(false);
+    });
+
+    it('coalesces dirty cells into rectangles', () => {
+        mask.markRegionDirty(1, 0, 3, 2);
+        mask.markDirty(makeTile(6, 0));
+        mask.markDirty(makeTile(1, 3));
+        mask.markDirty(makeTile(2, 3));
+
+        expect(mask.getDirtyRects()).toEqual([
+            { x: 1, y: 0, width: 3, height: 2 },
+            { x: 6, y: 0, width: 1, height: 1 },
+            { x: 1, y: 3, width: 2, height: 1 }
+        ]);
+    });
+
+    it('builds a boolean grid for the debug overlay', () => {
+        mask.markDirty(makeTile(3, 2));
+
+        const grid = mask.getMask();
+
+        expect(grid).toHaveLength(4);
+        expect(grid[2][3]).toBe(true);
+        expect(grid.flat().filter(Boolean)).toHaveLength(1);
+    });
+});
@@ -0,0 +1,634 @@
+import { describe, beforeAll, beforeEach, it, expect } from 'vitest';
+import { Display } from '../display';
+import { HeadlessRenderer } from '../renderer/headless-renderer';
+import { LayerPresentation, Renderer } from '../renderer/renderer';
+import { TextRenderer } from '../renderer/text-renderer';
+import { BlendMode, PointerCellEvent, Rect, RegionEvent, Tile, Viewport } from '../types';
+import { logger, LogLevel } from '../util/logger';
+
+class RecordingRenderer implements Renderer {
+    public clearedCells: { x: number, y: number }[] = [];
+    public drawnTiles: Tile[] = [];
+    public presented: Viewport[] = [];
+    public presentedRects: (Rect[] | undefined)[] = [];
+    public presentedScreens: (Rect | undefined)[] = [];
+
+    initialize(): void {}
+
+    clearCell(x: number, y: number): void {
+        this.clearedCells.push({ x, y });
+    }
+
+    drawTile(tile: Tile): void {
+        this.drawnTiles.push({ ...tile });
+    }
+
+    present(viewport: Viewport, dirtyRects?: Rect[], screen?: Rect): void {
+        this.presented.push({ ...viewport });
+        this.presentedRects.push(dirtyRects);
+        this.presentedScreens.push(screen);
+    }
+
+    clear(): void {}
+
+    reset(): void {
+        this.clearedCells = [];
+        this.drawnTiles = [];
+        this.presented = [];
+        this.presentedRects = [];
+        this.presentedScreens = [];
+    }
+}
+
+// Keeps a buffer per layer, like the canvas renderer
+class LayeredRecordingRenderer extends RecordingRenderer {
+    public addedLayers: string[] = [];
+    public clearedLayers: (string | undefined)[] = [];
+    public presentedLayers: (LayerPresentation[] | undefined)[] = [];
+
+    addLayer(id: string): void {
+        this.addedLayers.push(id);
+    }
+
+    removeLayer(id: string): void {
+        this.addedLayers = this.addedLayers.filter(layer => layer !== id);
+    }
+
+    clearCell(x: number, y: number, layer?: string): void {
+        super.clearCell(x, y);
+        this.clearedLayers.push(layer);
+    }
+
+    present(viewport: Viewport, dirtyRects?: Rect[], screen?: Rect, layers?: LayerPresentation[]): void {
+        super.present(viewport, dirtyRects, screen);
+        this.presentedLayers.push(layers);
+    }
+
+    reset(): void {
+        super.reset();
+        this.clearedLayers = [];
+        this.presentedLayers = [];
+    }
+}
+
+// Can switch glyph drawing paths, like the canvas renderer
+class GlyphAtlasRecordingRenderer extends RecordingRenderer {
+    public useGlyphAtlas: boolean = true;
+
+    toggleGlyphAtlas(): boolean {
+        this.useGlyphAtlas = !this.useGlyphAtlas;
+        return this.useGlyphAtlas;
+    }
+}
+
+describe('Display', () => {
+    let display: Display;
+
+    beforeAll(() => {
+        logger.setLogLevel(LogLevel.NONE);
+    });
+
+    beforeEach(() => {
+        display = new Display({
+            cellWidth: 12,
+            cellHeight: 24,
+            worldWidth: 20,
+            worldHeight: 10,
+            viewportWidth: 10,
+            viewportHeight: 5,
+            renderer: new HeadlessRenderer(),
+            autoStart: false
+        });
+    });
+
+    describe('Tile Model', () => {
+        it('creates tiles with default properties', () => {
+            const id = display.createTile(3, 4, '@', '#FFFFFFFF', '#000000FF', 2);
+            const tile = display.getTile(id);
+
+            expect(tile).toMatchObject({
+                x: 3,
+                y: 4,
+                char: '@',
+                zIndex: 2,
+                bgPercent: 1,
+                scaleSymbolX: 1,
+                scaleSymbolY: 1,
+                rotation: 0
+            });
+        });
+
+        it('moves tiles within the world', () => {
+            const id = display.createTile(0, 0, '@', '#FFFFFFFF', '#000000FF');
+            display.moveTile(id, 5, 6);
+
+            expect(display.getTile(id)).toMatchObject({ x: 5, y: 6 });
+        });
+
+        it('refuses to move tiles outside the world', () => {
+            const id = display.createTile(0, 0, '@', '#FFFFFFFF', '#000000FF');
+            display.moveTile(id, 20, 0);
+
+            expect(display.getTile(id)).toMatchObject({ x: 0, y: 0 });
+        });
+
+        it('removes tiles', () => {
+            const id = display.createTile(0, 0, '@', '#FFFFFFFF', '#000000FF');
+            display.removeTile(id);
+
+            expect(display.getTile(id)).toBeUndefined();
+        });
+
+        it('restacks tiles when their zIndex changes', () => {
+            const a = display.createTile(1, 1, 'a', '#FFFFFFFF', '#000000FF', 1);
+            const b = display.createTile(1, 1, 'b', '#FFFFFFFF', '#000000FF', 2);
+
+            display.setTileZIndex(a, 3);
+
+            expect(display.getTilesAt(1, 1).map(tile => tile.id)).toEqual([b, a]);
+        });
+
+        it('empties a cell without touching its neighbours', () => {
+            const a = display.createTile(1, 1, 'a', '#FFFFFFFF', '#000000FF', 1);
+            const b = display.createTile(1, 1, 'b', '#FFFFFFFF', '#000000FF', 2);
+            const c = display.createTile(2, 1, 'c', '#FFFFFFFF', '#000000FF', 1);
+
+            display.emptyCell(1, 1);
+
+            expect(display.getTile(a)).toBeUndefined();
+            expect(display.getTile(b)).toBeUndefined();
+            expect(display.getTile(c)).toBeDefined();
+        });
+    });
+
+    describe('Animation', () => {
+        it('advances value animations when rendering manually', () => {
+            const id = display.createTile(0, 0, '@', '#FFFFFFFF', '#000000FF');
+            display.addValueAnimation(id, {
+                x: { start: 0, end: 4, duration: 1, loop: false },
+                startTime: 0
+            });
+
+            display.render(500);
+            expect(display.getTile(id)!.x).toBeCloseTo(2);
+
+            display.render(1000);
+            expect(display.getTile(id)!.x).toBe(4);
+        });
+
+        it('keeps the cell index in sync with x/y animations', () => {
+            const id = display.createTile(0, 0, '@', '#FFFFFFFF', '#000000FF');
+            display.addValueAnimation(id, {
+                x: { start: 0, end: 4, duration: 1, loop: false },
+                startTime: 0
+            });
+
+            display.render(1000);
+
+            expect(display.getTilesAt(0, 0)).toHaveLength(0);
+            expect(display.getTilesAt(4, 0).map(tile => tile.id)).toEqual([id]);
+        });
+
+        it('animates zIndex', () => {
+            const a = display.createTile(0, 0, 'a', '#FFFFFFFF', '#000000FF', 1);
+            const b = display.createTile(0, 0, 'b', '#FFFFFFFF', '#000000FF', 2);
+            display.addValueAnimation(a, {
+                zIndex: { start: 1, end: 3, duration: 1, loop: false },
+                startTime: 0
+            });
+
+            display.render(250);
+            expect(display.getTilesAt(0, 0).map(tile => tile.id)).toEqual([a, b]);
+
+            display.render(1000);
+            expect(display.getTilesAt(0, 0).map(tile => tile.id)).toEqual([b, a]);
+        });
+
+        it('interpolates color animations', () => {
+            const id = display.createTile(0, 0, '@', '#000000FF', '#000000FF');
+            display.addColorAnimation(id, {
+                fg: { start: '#000000FF', end: '#FF0000FF', duration: 1 },
+                startTime: 0
+            });
+
+            display.render(1000);
+            expect(display.getTile(id)!.color).toBe('#ff0000ff');
+        });
+    });
+
+    describe('Renderer', () => {
+        it('draws dirty tiles in z order and presents the viewport', () => {
+            const renderer = new RecordingRenderer();
+            const recorded = new Display({
+                cellWidth: 12,
+                cellHeight: 24,
+                worldWidth: 20,
+                worldHeight: 10,
+                viewportWidth: 10,
+                viewportHeight: 5,
+                renderer,
+                autoStart: false
+            });
+
+            recorded.createTile(1, 1, 'b', '#FFFFFFFF', '#00000000', 2);
+            recorded.createTile(1, 1, 'a', '#FFFFFFFF', '#000000FF', 1);
+            recorded.setViewport(3, 2);
+            recorded.render(0);
+
+            expect(renderer.clearedCells).toEqual([{ x: 1, y: 1 }]);
+            expect(renderer.drawnTiles.map(tile => tile.char)).toEqual(['a', 'b']);
+            expect(renderer.presented).toEqual([{ x: 3, y: 2, width: 10, height: 5 }]);
+
+            renderer.reset();
+            recorded.render(16);
+
+            expect(renderer.drawnTiles).toHaveLength(0);
+            expect(renderer.presented).toHaveLength(1);
+        });
+
+        it('presents only the changed rectangles while the viewport stays put', () => {
+            const renderer = new RecordingRenderer();
+            const recorded = new Display({
+                cellWidth: 12,
+                cellHeight: 24,
+                worldWidth: 20,
+                worldHeight: 10,
+                viewportWidth: 10,
+                viewportHeight: 5,
+                renderer,
+                autoStart: false
+            });
+
+            const id = recorded.createTile(1, 1, 'a', '#FFFFFFFF', '#000000FF');
+            recorded.render(0);
+            recorded.moveTile(id, 2, 1);
+            recorded.render(16);
+            recorded.setViewport(1, 0);
+            recorded.render(32);
+
+            expect(renderer.presentedRects).toEqual([
+                undefined,
+                [{ x: 1, y: 1, width: 2, height: 1 }],
+                undefined
+            ]);
+        });
+
+        it('culls tiles hidden under an opaque tile', () => {
+            const renderer = new RecordingRenderer();
+            const recorded = new Display({
+                cellWidth: 12,
+                cellHeight: 24,
+                worldWidth: 20,
+                worldHeight: 10,
+                viewportWidth: 10,
+                viewportHeight: 5,
+                renderer,
+                autoStart: false
+            });
+
+            recorded.createTile(0, 0, '.', '#FFFFFFFF', '#222222FF', 1);
+            recorded.createTile(0, 0, '#', '#FFFFFFFF', '#444444FF', 2);
+            recorded.createTile(0, 0, '@', '#FFFF00FF', '#00000000', 3);
+            recorded.createTile(1, 0, '.', '#FFFFFFFF', '#222222FF', 1);
+            recorded.createTile(1, 0, '~', '#FFFFFFFF', '#44444480', 2);
+            recorded.render(0);
+
+            expect(renderer.drawnTiles.map(tile => tile.char)).toEqual(['#', '@', '.', '~']);
+            expect(recorded.getPerformanceMetrics().lastCulledTileCount).toBe(1);
+        });
+
+        it('redraws everything once the dirty mask is turned off', () => {
+            const renderer = new RecordingRenderer();
+            const recorded = new Display({
+                cellWidth: 12,
+                cellHeight: 24,
+                worldWidth: 20,
+                worldHeight: 10,
+                viewportWidth: 10,
+                viewportHeight: 5,
+                renderer,
+                autoStart: false
+            });
+
+            recorded.createTile(0, 0, 'a', '#FFFFFFFF', '#000000FF');
+            recorded.createTile(5, 3, 'b', '#FFFFFFFF', '#000000FF');
+            recorded.render(0);
+            renderer.reset();
+
+            expect(recorded.toggleDirtyMask()).toBe(false);
+            recorded.render(16);
+
+            expect(renderer.drawnTiles.map(tile => tile.char)).toEqual(['a', 'b']);
+        });
+
+        it('redraws every tile when the glyph atlas is toggled', () => {
+            const renderer = new GlyphAtlasRecordingRenderer();
+            const recorded = new Display({
+                cellWidth: 12,
+                cellHeight: 24,
+                worldWidth: 20,
+                worldHeight: 10,
+                viewportWidth: 10,
+                viewportHeight: 5,
+                renderer,
+                autoStart: false
+            });
+
+            recorded.createTile(0, 0, 'a', '#FFFFFFFF', '#000000FF');
+            recorded.createTile(5, 3, 'b', '#FFFFFFFF', '#000000FF');
+            recorded.render(0);
+            renderer.reset();
+
+            expect(recorded.toggleGlyphAtlas()).toBe(false);
+            recorded.render(16);
+
+            expect(renderer.drawnTiles.map(tile => tile.char)).toEqual(['a', 'b']);
+            expect(renderer.clearedCells).toEqual([{ x: 0, y: 0 }, { x: 5, y: 3 }]);
+        });
+    });
+
+    describe('Unbounded World', () => {
+        let renderer: TextRenderer;
+        let unbounded: Display;
+
+        beforeEach(() => {
+            renderer = new TextRenderer({ emptyChar: '.' });
+            unbounded = new Display({
+                cellWidth: 12,
+                cellHeight: 24,
+                worldWidth: 4,
+                worldHeight: 4,
+                viewportWidth: 4,
+                viewportHeight: 2,
+                unbounded: true,
+                regionSize: 4,
+                renderer,
+                autoStart: false
+            });
+        });
+
+        it('moves tiles and the viewport to negative coordinates', () => {
+            const id = unbounded.createTile(0, 0, '@', '#FFFFFFFF', '#000000FF');
+            unbounded.moveTile(id, -100, -50);
+            unbounded.setViewport(-101, -50);
+            unbounded.render(0);
+
+            expect(unbounded.getTile(id)).toMatchObject({ x: -100, y: -50 });
+            expect(renderer.getLines()).toEqual(['.@..', '....']);
+        });
+
+        it('reports regions entering and leaving the viewport', () => {
+            const events: RegionEvent[] = [];
+            unbounded.addRegionCallback(event => events.push(event));
+
+            unbounded.setViewport(2, 0);
+            unbounded.render(0);
+
+            expect(events.map(e => `${e.type} ${e.regionX},${e.regionY}`)).toEqual(['enter 0,0', 'enter 1,0']);
+            expect(events[1]).toMatchObject({ x: 4, y: 0, width: 4, height: 4 });
+
+            events.length = 0;
+            unbounded.setViewport(-3, 0);
+            unbounded.render(16);
+
+            expect(events.map(e => `${e.type} ${e.regionX},${e.regionY}`)).toEqual(['exit 1,0', 'enter -1,0']);
+        });
+
+        it('draws tiles created by an enter callback in the same frame', () => {
+            unbounded.addRegionCallback((event, display) => {
+                if (event.type === 'enter') {
+                    display.createTile(event.x, event.y, '#', '#FFFFFFFF', '#000000FF');
+                }
+            });
+
+            unbounded.setViewport(-6, -4);
+            unbounded.render(0);
+
+            expect(renderer.getLines()).toEqual(['..#.', '....']);
+        });
+    });
+
+    describe('Views', () => {
+        let renderer: RecordingRenderer;
+        let viewed: Display;
+
+        beforeEach(() => {
+            renderer = new RecordingRenderer();
+            viewed = new Display({
+                cellWidth: 10,
+                cellHeight: 20,
+                worldWidth: 40,
+                worldHeight: 20,
+                viewportWidth: 10,
+                viewportHeight: 5,
+                renderer,
+                autoStart: false
+            });
+        });
+
+        it('presents every view into its screen rectangle', () => {
+            const map = viewed.addView('map', {
+                screen: { x: 60, y: 0, width: 40, height: 40 },
+                zoom: 0.25
+            })!;
+            viewed.render(0);
+
+            expect(map.getViewport()).toMatchObject({ width: 4, height: 2, zoom: 0.25 });
+            expect(renderer.presented).toEqual([
+                { x: 0, y: 0, width: 10, height: 5 },
+                { x: 0, y: 0, width: 16, height: 8 }
+            ]);
+            expect(renderer.presentedScreens).toEqual([undefined, { x: 60, y: 0, width: 40, height: 40 }]);
+        });
+
+        it('shares tiles but moves each view on its own', () => {
+            const id = viewed.createTile(30, 15, '@', '#FFFFFFFF', '#000000FF');
+            const map = viewed.addView('map', { screen: { x: 0, y: 0, width: 50, height: 40 } })!;
+            map.getCamera().setOptions({ smoothing: 'none' });
+            map.getCamera().follow(id);
+            viewed.render(0);
+
+            expect(map.getViewport()).toMatchObject({ x: 28, y: 14.5 });
+            expect(viewed.getViewport()).toMatchObject({ x: 0, y: 0 });
+            expect(renderer.drawnTiles.map(tile => tile.id)).toEqual([id]);
+        });
+
+        it('presents in full while several views are shown', () => {
+            viewed.addView('map', { screen: { x: 0, y: 0, width: 20, height: 20 } });
+            viewed.render(0);
+            viewed.createTile(1, 1, 'a', '#FFFFFFFF', '#000000FF');
+            viewed.render(16);
+
+            expect(renderer.presentedRects).toEqual([undefined, undefined, undefined, undefined]);
+
+            viewed.removeView('map');
+            viewed.render(32);
+            viewed.createTile(2, 1, 'b', '#FFFFFFFF', '#000000FF');
+            viewed.render(48);
+
+            expect(renderer.presentedRects.slice(4)).toEqual([undefined, [{ x: 2, y: 1, width: 1, height: 1 }]]);
+        });
+
+        it('refuses duplicate view ids', () => {
+            viewed.addView('map', { screen: { x: 0, y: 0, width: 20, height: 20 } });
+
+            expect(viewed.addView('map', { screen: { x: 0, y: 0, width: 20, height: 20 } })).toBeUndefined();
+        });
+    });
+
+    describe('Pointer Mapping', () => {
+        let renderer: RecordingRenderer & { getElement(): HTMLElement };
+        let mapped: Display;
+        let listeners: Map<string, (event: PointerEvent) => void>;
+
+        beforeEach(() => {
+            listeners = new Map();
+            // Output is 100x100 CSS pixels, shown at half size 200px from the left
+            const element = {
+                getBoundingClientRect: () => ({ left: 200, top: 0, width: 50, height: 50 }),
+                addEventListener: (type: string, listener: (event: PointerEvent) => void) => listeners.set(type, listener),
+                removeEventListener: (type: string) => listeners.delete(type)
+            } as unknown as HTMLElement;
+            renderer = Object.assign(new RecordingRenderer(), { getElement: () => element });
+            mapped = new Display({
+                cellWidth: 10,
+                cellHeight: 10,
+                worldWidth: 40,
+                worldHeight: 40,
+                viewportWidth: 10,
+                viewportHeight: 10,
+                renderer,
+                autoStart: false
+            });
+        });
+
+        it('maps client coordinates through CSS scaling and the viewport', () => {
+            mapped.setViewport(5, 3);
+            mapped.render(0);
+
+            expect(mapped.screenToWorld(210, 5)).toEqual({ worldX: 7, worldY: 4, viewId: undefined });
+            expect(mapped.screenToWorld(190, 5)).toBeNull();
+            expect(mapped.worldToScreen(7, 4)).toEqual({ x: 210, y: 5 });
+        });
+
+        it('maps through the view on top at that point', () => {
+            mapped.addView('map', { screen: { x: 50, y: 50, width: 50, height: 50 }, zoom: 0.25 });
+            mapped.render(0);
+
+            // The map shows 20 cells across 50 pixels, 25 client pixels
+            expect(mapped.screenToWorld(240, 40)).toEqual({ worldX: 12, worldY: 12, viewId: 'map' });
+            expect(mapped.screenToWorld(220, 40)).toEqual({ worldX: 4, worldY: 8, viewId: undefined });
+            expect(mapped.worldToScreen(12, 12, 'map')).toEqual({ x: 240, y: 40 });
+        });
+
+        it('reports clicked cells with their tiles', () => {
+            const id = mapped.createTile(2, 1, '@', '#FFFFFFFF', '#000000FF');
+            mapped.render(0);
+            const events: PointerCellEvent[] = [];
+            const callback = (event: PointerCellEvent) => events.push(event);
+            mapped.addPointerCallback(callback);
+
+            const pointer = { clientX: 211, clientY: 6, pointerId: 1, button: 0 } as PointerEvent;
+            listeners.get('pointerdown')!(pointer);
+            listeners.get('pointerup')!(pointer);
+
+            const click = events.find(event => event.type === 'click')!;
+            expect(click).toMatchObject({ x: 2, y: 1, button: 0 });
+            expect(click.tiles.map(tile => tile.id)).toEqual([id]);
+
+            mapped.removePointerCallback(callback);
+            expect(listeners.size).toBe(0);
+        });
+    });
+
+    describe('Layers', () => {
+        const createDisplay = (renderer: Renderer) => new Display({
+            cellWidth: 10,
+            cellHeight: 10,
+            worldWidth: 40,
+            worldHeight: 20,
+            viewportWidth: 10,
+            viewportHeight: 5,
+            renderer,
+            autoStart: false
+        });
+
+        it('only redraws the layer that changed', () => {
+            const renderer = new LayeredRecordingRenderer();
+            const layered = createDisplay(renderer);
+            layered.addLayer('effects', { order: 1 });
+            layered.createTile(2, 2, '.', '#FFFFFFFF', '#000000FF');
+            const spark = layered.createTile(2, 2, '*', '#FFFF00FF', '#00000000', 1, { layer: 'effects' });
+            layered.render(0);
+
+            expect(renderer.addedLayers).toEqual(['default', 'effects']);
+            renderer.reset();
+
+            layered.updateTileColor(spark, '#FF0000FF');
+            layered.render(16);
+
+            expect(renderer.drawnTiles.map(tile => tile.id)).toEqual([spark]);
+            expect(renderer.clearedLayers).toEqual(['effects']);
+        });
+
+        it('presents layers bottom to top with parallax and fixed positions', () => {
+            const renderer = new LayeredRecordingRenderer();
+            const layered = createDisplay(renderer);
+            layered.addLayer('ui', { order: 10, fixed: true });
+            layered.addLayer('sky', { order: -1, parallax: 0.5, opacity: 0.5, blendMode: BlendMode.Screen });
+            layered.setViewport(4, 2);
+            layered.render(0);
+
+            expect(layered.getLayers()).toEqual(['sky', 'default', 'ui']);
+            expect(renderer.presentedLayers[0]).toEqual([
+                { id: 'sky', viewport: { x: 2, y: 1, width: 10, height: 5 }, opacity: 0.5, blendMode: BlendMode.Screen },
+                { id: 'default', viewport: { x: 4, y: 2, width: 10, height: 5 }, opacity: 1, blendMode: BlendMode.SourceOver },
+                { id: 'ui', viewport: { x: 0, y: 0, width: 10, height: 5 }, opacity: 1, blendMode: BlendMode.SourceOver }
+            ]);
+
+            layered.setLayerOptions('sky', { visible: false });
+            layered.render(16);
+
+            expect(renderer.presentedLayers[1]!.map(layer => layer.id)).toEqual(['default', 'ui']);
+            expect(renderer.presentedRects[1]).toBeUndefined();
+        });
+
+        it('flattens layers in order for renderers without layer buffers', () => {
+            const renderer = new RecordingRenderer();
+            const flat = createDisplay(renderer);
+            flat.addLayer('actors', { order: 1 });
+            const actor = flat.createTile(1, 1, '@', '#FFFFFFFF', '#00000000', 0, { layer: 'actors' });
+            const floor = flat.createTile(1, 1, '.', '#FFFFFFFF', '#000000FF', 5);
+            flat.render(0);
+
+            expect(renderer.drawnTiles.map(tile => tile.id)).toEqual([floor, actor]);
+            expect(flat.getTilesAt(1, 1).map(tile => tile.id)).toEqual([floor, actor]);
+            renderer.reset();
+
+            flat.setLayerOptions('actors', { visible: false });
+            flat.render(16);
+
+            expect(renderer.drawnTiles.map(tile => tile.id)).toEqual([floor]);
+        });
+
+        it('moves tiles between layers and removes them with their layer', () => {
+            const layered = createDisplay(new LayeredRecordingRenderer());
+            layered.addLayer('actors');
+            const id = layered.createTile(1, 1, '@', '#FFFFFFFF', '#00000000');
+
+            layered.setTileLayer(id, 'actors');
+            expect(layered.getTile(id)!.layer).toBe('actors');
+
+            layered.removeLayer('actors');
+            expect(layered.getTile(id)).toBeUndefined();
+            expect(layered.getLayers()).toEqual(['default']);
+        });
+
+        it('keeps the default layer', () => {
+            const layered = createDisplay(new LayeredRecordingRenderer());
+            layered.removeLayer('default');
+
+            expect(layered.getLayers()).toEqual(['default']);
+        });
+    });
+});
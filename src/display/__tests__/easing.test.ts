@@ -0,0 +1,111 @@
+import { describe, beforeAll, beforeEach, it, expect, vi } from 'vitest';
+import { backOut, cubicBezier, Easing, elasticOut, fromPoints, getEasing, registerEasing, steps } from '../util/easing';
+import { Display, Easing as DisplayEasing } from '../display';
+import { HeadlessRenderer } from '../renderer/headless-renderer';
+import { EasingType, TileId } from '../types';
+import { logger, LogLevel } from '../util/logger';
+
+describe('Easing', () => {
+    it('is still available from the display module', () => {
+        expect(DisplayEasing).toBe(Easing);
+    });
+
+    it('solves cubic-bezier curves for x', () => {
+        const linear = cubicBezier(0, 0, 1, 1);
+        [0, 0.1, 0.5, 0.9, 1].forEach(t => expect(linear(t)).toBeCloseTo(t, 6));
+
+        // CSS ease-in-out is symmetric about the middle
+        const easeInOut = cubicBezier(0.42, 0, 0.58, 1);
+        expect(easeInOut(0.5)).toBeCloseTo(0.5, 6);
+        expect(easeInOut(0.25) + easeInOut(0.75)).toBeCloseTo(1, 6);
+        expect(easeInOut(0.1)).toBeLessThan(0.1);
+
+        // Control points past 1 overshoot
+        const overshoot = cubicBezier(0.3, 1.6, 0.6, 1);
+        expect(Math.max(...[0.5, 0.6, 0.7, 0.8].map(overshoot))).toBeGreaterThan(1);
+    });
+
+    it('jumps between steps like CSS', () => {
+        expect([0, 0.3, 0.99, 1].map(steps(4))).toEqual([0, 0.25, 0.75, 1]);
+        expect([0, 0.3, 0.99, 1].map(steps(4, 'start'))).toEqual([0.25, 0.5, 1, 1]);
+        expect([0, 0.5, 1].map(steps(2, 'both'))).toEqual([1 / 3, 2 / 3, 1]);
+        expect([0, 0.5, 1].map(steps(2, 'none'))).toEqual([0, 1, 1]);
+    });
+
+    it('tunes elastic and back overshoot', () => {
+        const peak = (ease: (t: number) => number) => Math.max(...Array.from({ length: 100 }, (_, i) => ease(i / 100)));
+
+        expect(peak(backOut(3))).toBeGreaterThan(peak(backOut()));
+        expect(peak(elasticOut(2))).toBeGreaterThan(peak(elasticOut()));
+        expect(elasticOut(2, 0.5)(1)).toBe(1);
+        expect(Easing.backIn(0)).toBeCloseTo(0, 9);
+        expect(Easing.backIn(1)).toBeCloseTo(1, 9);
+    });
+
+    it('joins sampled points', () => {
+        const curve = fromPoints([[1, 1], [0, 0], [0.5, 0.8]]);
+        expect(curve(0.25)).toBeCloseTo(0.4, 9);
+        expect(curve(0.75)).toBeCloseTo(0.9, 9);
+        expect(curve(2)).toBe(1);
+    });
+
+    it('looks easings up by name', () => {
+        expect(getEasing(EasingType.QuadIn)).toBe(Easing.quadIn);
+        expect(getEasing(EasingType.BackOut)).toBe(Easing.backOut);
+        expect(getEasing('wobble')).toBeUndefined();
+
+        const wobble = elasticOut(1.5, 0.2);
+        registerEasing('wobble', wobble);
+        expect(getEasing('wobble')).toBe(wobble);
+
+        expect(getEasing('cubic-bezier(0.42, 0, 0.58, 1)')!(0.5)).toBeCloseTo(0.5, 6);
+        expect(getEasing('steps(4, jump-start)')!(0)).toBe(0.25);
+        expect(getEasing('steps(4, sideways)')).toBeUndefined();
+        expect(getEasing('cubic-bezier(1, 2)')).toBeUndefined();
+    });
+});
+
+describe('Easing names in animations', () => {
+    let display: Display;
+    let id: TileId;
+
+    beforeAll(() => {
+        logger.setLogLevel(LogLevel.NONE);
+    });
+
+    beforeEach(() => {
+        display = new Display({
+            cellWidth: 12,
+            cellHeight: 24,
+            worldWidth: 10,
+            worldHeight: 10,
+            viewportWidth: 10,
+            viewportHeight: 10,
+            renderer: new HeadlessRenderer(),
+            autoStart: false
+        });
+        id = display.createTile(0, 0, '@', '#000000FF', '#000000FF');
+    });
+
+    it('looks names up for value, color and keyframe animations', () => {
+        display.addValueAnimation(id, { offsetSymbolX: { start: 0, end: 1, duration: 1, easing: EasingType.QuadIn }, startTime: 0 });
+        display.addColorAnimation(id, { fg: { start: '#000000FF', end: '#FFFFFFFF', duration: 1, easing: 'steps(2)' }, startTime: 0 });
+        display.addKeyframeAnimation(id, { y: [{ time: 0, value: 0 }, { time: 1, value: 4, easing: 'cubic-bezier(0, 0, 1, 1)' }], startTime: 0 });
+        display.render(500);
+
+        const tile = display.getTile(id)!;
+        expect(tile.offsetSymbolX).toBeCloseTo(0.25, 6);
+        expect(tile.color).toBe('#808080ff');
+        expect(tile.y).toBeCloseTo(2, 6);
+    });
+
+    it('warns about an unknown name and eases linearly', () => {
+        const warn = vi.spyOn(logger, 'warn');
+        display.addValueAnimation(id, { offsetSymbolX: { start: 0, end: 1, duration: 1, easing: 'wobbly' }, startTime: 0 });
+        display.render(250);
+
+        expect(warn).toHaveBeenCalledWith('Unknown easing: wobbly, using linear');
+        expect(display.getTile(id)!.offsetSymbolX).toBeCloseTo(0.25, 6);
+        warn.mockRestore();
+    });
+});
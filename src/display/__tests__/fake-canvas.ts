@@ -0,0 +1,153 @@
+import { vi } from 'vitest';
+
+// Just enough of the Canvas2D API for the canvas renderer, with one color string per pixel.
+// Glyphs are drawn as a row of pixels spelling out the character code, so leftovers show up.
+export class FakeContext {
+    public fillStyle: string = '#000000';
+    public globalCompositeOperation: string = 'source-over';
+    public globalAlpha: number = 1;
+    public font: string = '';
+    public textAlign: string = 'start';
+    public textBaseline: string = 'alphabetic';
+    public fontKerning: string = 'auto';
+    public textRendering: string = 'auto';
+    public imageSmoothingEnabled: boolean = true;
+
+    private pixels: Map<string, string> = new Map();
+    private originX: number = 0;
+    private originY: number = 0;
+    private stack: { originX: number, originY: number, fillStyle: string, globalCompositeOperation: string }[] = [];
+
+    constructor(public readonly canvas: FakeCanvas) {}
+
+    public getPixel(x: number, y: number): string | undefined {
+        return this.pixels.get(`${x},${y}`);
+    }
+
+    public countPixels(x: number, y: number, width: number, height: number): number {
+        let count = 0;
+        this.forEachPixel(x, y, width, height, (px, py) => {
+            if (this.pixels.has(`${px},${py}`)) count++;
+        });
+        return count;
+    }
+
+    public save(): void {
+        const { originX, originY, fillStyle, globalCompositeOperation } = this;
+        this.stack.push({ originX, originY, fillStyle, globalCompositeOperation });
+    }
+
+    public restore(): void {
+        Object.assign(this, this.stack.pop());
+    }
+
+    public translate(x: number, y: number): void {
+        this.originX += x;
+        this.originY += y;
+    }
+
+    public fillRect(x: number, y: number, width: number, height: number): void {
+        const transparent = isTransparent(this.fillStyle);
+        if (transparent && this.globalCompositeOperation !== 'copy') return;
+
+        this.forEachPixel(this.originX + x, this.originY + y, width, height, (px, py) => {
+            if (transparent) {
+                this.pixels.delete(`${px},${py}`);
+            } else {
+                this.pixels.set(`${px},${py}`, this.fillStyle);
+            }
+        });
+    }
+
+    public clearRect(x: number, y: number, width: number, height: number): void {
+        this.forEachPixel(this.originX + x, this.originY + y, width, height, (px, py) => {
+            this.pixels.delete(`${px},${py}`);
+        });
+    }
+
+    public fillText(text: string, x: number, y: number): void {
+        if (isTransparent(this.fillStyle)) return;
+
+        const code = text.charCodeAt(0);
+        const left = Math.floor(this.originX + x) - 4;
+        const top = Math.floor(this.originY + y);
+        for (let bit = 0; bit < 8; bit++) {
+            if (code & (1 << bit)) {
+                this.pixels.set(`${left + bit},${top}`, this.fillStyle);
+            }
+        }
+    }
+
+    // Copies 1:1, scaling isn't needed by the tests
+    public drawImage(
+        source: FakeCanvas,
+        sx: number, sy: number, width: number, height: number,
+        dx: number, dy: number
+    ): void {
+        const sourceCtx = source.getContext();
+        const offsetX = Math.round(this.originX + dx - sx);
+        const offsetY = Math.round(this.originY + dy - sy);
+        this.forEachPixel(sx, sy, width, height, (px, py) => {
+            const color = sourceCtx.getPixel(px, py);
+            if (color) {
+                this.pixels.set(`${px + offsetX},${py + offsetY}`, color);
+            }
+        });
+    }
+
+    public beginPath(): void {}
+    public rect(): void {}
+    public clip(): void {}
+    public rotate(): void {}
+    public scale(): void {}
+
+    private forEachPixel(
+        x: number, y: number, width: number, height: number,
+        callback: (px: number, py: number) => void
+    ): void {
+        const left = Math.max(0, Math.round(x));
+        const top = Math.max(0, Math.round(y));
+        const right = Math.min(this.canvas.width, Math.round(x + width));
+        const bottom = Math.min(this.canvas.height, Math.round(y + height));
+        for (let py = top; py < bottom; py++) {
+            for (let px = left; px < right; px++) {
+                callback(px, py);
+            }
+        }
+    }
+}
+
+export class FakeCanvas {
+    public width: number = 0;
+    public height: number = 0;
+    public style: Record<string, string> = {};
+    private ctx?: FakeContext;
+
+    public getContext(): FakeContext {
+        this.ctx ??= new FakeContext(this);
+        return this.ctx;
+    }
+}
+
+function isTransparent(color: string): boolean {
+    return color === 'transparent' || (color.length === 9 && color.endsWith('00'));
+}
+
+/**
+ * Stub the browser globals the canvas renderer needs. Every canvas made through
+ * document.createElement is collected in `created`.
+ */
+export function stubCanvasGlobals(): { display: FakeCanvas, created: FakeCanvas[] } {
+    const display = new FakeCanvas();
+    const created: FakeCanvas[] = [];
+    vi.stubGlobal('window', { devicePixelRatio: 1 });
+    vi.stubGlobal('document', {
+        getElementById: () => display,
+        createElement: () => {
+            const canvas = new FakeCanvas();
+            created.push(canvas);
+            return canvas;
+        }
+    });
+    return { display, created };
+}
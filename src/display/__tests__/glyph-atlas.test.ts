@@ -0,0 +1,75 @@
+import { describe, beforeEach, afterEach, it, expect, vi } from 'vitest';
+import { GlyphAtlas } from '../renderer/glyph-atlas';
+import { FakeCanvas, stubCanvasGlobals } from './fake-canvas';
+
+describe('GlyphAtlas', () => {
+    let created: FakeCanvas[];
+    let target: CanvasRenderingContext2D;
+
+    function makeAtlas(capacity: number): GlyphAtlas {
+        return new GlyphAtlas(8, 8, 1, capacity);
+    }
+
+    function draw(atlas: GlyphAtlas, ...chars: string[]): void {
+        chars.forEach(char => atlas.drawGlyph(target, char, '#FFFFFFFF', '8px monospace', 4, 4));
+    }
+
+    beforeEach(() => {
+        created = stubCanvasGlobals().created;
+        const canvas = new FakeCanvas();
+        canvas.width = 32;
+        canvas.height = 32;
+        target = canvas.getContext() as unknown as CanvasRenderingContext2D;
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('counts hits and misses', () => {
+        const atlas = makeAtlas(4);
+        draw(atlas, 'a', 'a', 'b', 'a');
+        expect(atlas.getStats()).toEqual({ size: 2, capacity: 4, hits: 2, misses: 2, evictions: 0 });
+
+        // Another color is another glyph
+        atlas.drawGlyph(target, 'a', '#FF0000FF', '8px monospace', 4, 4);
+        expect(atlas.getStats().misses).toBe(3);
+    });
+
+    it('evicts the least recently used glyph once full', () => {
+        const atlas = makeAtlas(2);
+        draw(atlas, 'a', 'b', 'c');
+        expect(atlas.getStats()).toMatchObject({ size: 2, misses: 3, evictions: 1 });
+
+        // 'a' went first, 'b' and 'c' are still cached
+        draw(atlas, 'b', 'c');
+        expect(atlas.getStats()).toMatchObject({ hits: 2, misses: 3 });
+        draw(atlas, 'a');
+        expect(atlas.getStats()).toMatchObject({ hits: 2, misses: 4, evictions: 2 });
+    });
+
+    it('keeps a glyph that was just hit', () => {
+        const atlas = makeAtlas(2);
+        draw(atlas, 'a', 'b', 'a', 'c');
+
+        // The hit moved 'a' to the back of the line, so 'b' was evicted instead
+        draw(atlas, 'a');
+        expect(atlas.getStats()).toMatchObject({ hits: 2, misses: 3, evictions: 1 });
+        draw(atlas, 'b');
+        expect(atlas.getStats()).toMatchObject({ hits: 2, misses: 4, evictions: 2 });
+    });
+
+    it('wipes a reused slot before drawing into it', () => {
+        const atlas = makeAtlas(1);
+        draw(atlas, 'a', 'b');
+
+        const fresh = makeAtlas(1);
+        draw(fresh, 'b');
+
+        const [reused, clean] = created.map(canvas => canvas.getContext());
+        expect(reused.countPixels(0, 0, 16, 16)).toBe(clean.countPixels(0, 0, 16, 16));
+        for (let x = 0; x < 16; x++) {
+            expect(reused.getPixel(x, 8)).toBe(clean.getPixel(x, 8));
+        }
+    });
+});
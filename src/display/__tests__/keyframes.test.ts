@@ -0,0 +1,106 @@
+import { describe, beforeAll, beforeEach, it, expect } from 'vitest';
+import { Display } from '../display';
+import { resolveKeyframeTrack, sampleKeyframeTrack } from '../keyframes';
+import { HeadlessRenderer } from '../renderer/headless-renderer';
+import { Keyframe, TileId } from '../types';
+import { logger, LogLevel } from '../util/logger';
+
+const lerp = (from: number, to: number, t: number) => from + (to - from) * t;
+
+describe('Keyframe tracks', () => {
+    const keyframes: Keyframe<number>[] = [
+        { time: 2, value: 10 },
+        { time: 0, value: 0 },
+        { time: 1, value: 4, easing: t => t * t }
+    ];
+
+    it('interpolates between keyframes in time order with the easing of the one ahead', () => {
+        const track = resolveKeyframeTrack(keyframes, 'once');
+
+        expect(sampleKeyframeTrack(track, -1, lerp).value).toBe(0);
+        expect(sampleKeyframeTrack(track, 0.5, lerp).value).toBe(1);
+        expect(sampleKeyframeTrack(track, 1.5, lerp).value).toBe(7);
+        expect(sampleKeyframeTrack(track, 3, lerp)).toEqual({ value: 10, cycle: 0, done: true });
+    });
+
+    it('loops and ping-pongs', () => {
+        const looped = resolveKeyframeTrack(keyframes, 'loop');
+        expect(sampleKeyframeTrack(looped, 2.5, lerp)).toEqual({ value: 1, cycle: 1, done: false });
+
+        const pingpong = resolveKeyframeTrack({ keyframes, mode: 'pingpong', offset: 1 }, 'once');
+        expect(sampleKeyframeTrack(pingpong, 1.5, lerp)).toEqual({ value: 7, cycle: 1, done: false });
+        expect(sampleKeyframeTrack(pingpong, 3.5, lerp).value).toBe(1);
+    });
+
+    it('steps without an interpolator', () => {
+        const track = resolveKeyframeTrack([{ time: 0, value: 'a' }, { time: 1, value: 'b' }, { time: 2, value: 'c' }], 'loop');
+
+        expect(sampleKeyframeTrack(track, 0.9).value).toBe('a');
+        expect(sampleKeyframeTrack(track, 1).value).toBe('b');
+        expect(sampleKeyframeTrack(track, 2.1).value).toBe('a');
+    });
+});
+
+describe('Display keyframe animations', () => {
+    let display: Display;
+    let id: TileId;
+
+    beforeAll(() => {
+        logger.setLogLevel(LogLevel.NONE);
+    });
+
+    beforeEach(() => {
+        display = new Display({
+            cellWidth: 12,
+            cellHeight: 24,
+            worldWidth: 20,
+            worldHeight: 10,
+            viewportWidth: 10,
+            viewportHeight: 5,
+            renderer: new HeadlessRenderer(),
+            autoStart: false
+        });
+        id = display.createTile(0, 0, '@', '#FFFFFFFF', '#000000FF');
+    });
+
+    it('animates position, color and symbol together and finishes after the longest track', async () => {
+        const handle = display.addKeyframeAnimation(id, {
+            x: [{ time: 0, value: 0 }, { time: 1, value: 4 }, { time: 2, value: 2 }],
+            color: [{ time: 0, value: '#FFFFFFFF' }, { time: 1, value: '#000000FF' }],
+            char: [{ time: 0, value: '@' }, { time: 0.5, value: '*' }],
+            startTime: 0
+        });
+
+        display.render(500);
+        let tile = display.getTile(id)!;
+        expect(tile.x).toBe(2);
+        expect(tile.char).toBe('*');
+        expect(display.getTilesAt(2, 0).map(tile => tile.id)).toContain(id);
+
+        display.render(1000);
+        expect(tile.color).toBe('#000000FF');
+        expect(handle.isFinished()).toBe(false);
+
+        display.render(2000);
+        await handle.finished;
+        tile = display.getTile(id)!;
+        expect(tile.x).toBe(2);
+        expect(display.getTilesAt(0, 0).map(tile => tile.id)).not.toContain(id);
+    });
+
+    it('keeps looping tracks going next to finished ones', () => {
+        const handle = display.addKeyframeAnimation(id, {
+            y: { keyframes: [{ time: 0, value: 0 }, { time: 1, value: 1 }] },
+            rotation: { keyframes: [{ time: 0, value: 0 }, { time: 1, value: 2 }], mode: 'pingpong' },
+            startTime: 0
+        });
+
+        display.render(1500);
+        expect(display.getTile(id)!.y).toBe(1);
+        expect(display.getTile(id)!.rotation).toBe(1);
+        expect(handle.isFinished()).toBe(false);
+
+        handle.cancel();
+        expect(handle.isFinished()).toBe(true);
+    });
+});
@@ -0,0 +1,117 @@
+import { describe, beforeAll, beforeEach, it, expect } from 'vitest';
+import { Display } from '../display';
+import { retargetSpring, startDecay, stepMotion } from '../motion';
+import { HeadlessRenderer } from '../renderer/headless-renderer';
+import { TileId } from '../types';
+import { logger, LogLevel } from '../util/logger';
+
+describe('Motion', () => {
+    it('follows the same path however the time is split', () => {
+        [{ damping: 10 }, { damping: 26 }, { stiffness: 100, damping: 20 }, { damping: 60 }].forEach(options => {
+            const once = retargetSpring(undefined, 0, 5, 0, options, 3);
+            const often = retargetSpring(undefined, 0, 5, 0, options, 3);
+
+            stepMotion(once, 0.5);
+            for (let i = 0; i < 50; i++) stepMotion(often, 0.01);
+
+            expect(often.value).toBeCloseTo(once.value, 9);
+            expect(often.velocity).toBeCloseTo(once.velocity, 9);
+        });
+    });
+
+    it('overshoots when underdamped and comes to rest exactly on target', () => {
+        const spring = retargetSpring(undefined, 0, 1, 0, { stiffness: 170, damping: 8 });
+        let peak = 0;
+        let settled = false;
+        for (let i = 0; i < 600 && !settled; i++) {
+            settled = stepMotion(spring, 1 / 60);
+            peak = Math.max(peak, spring.value);
+        }
+
+        expect(peak).toBeGreaterThan(1.2);
+        expect(settled).toBe(true);
+        expect(spring.value).toBe(1);
+        expect(spring.velocity).toBe(0);
+    });
+
+    it('keeps its velocity when retargeted', () => {
+        const spring = retargetSpring(undefined, 0, 10, 0, {});
+        stepMotion(spring, 0.1);
+        const retargeted = retargetSpring(spring, 0, -10, 100, {});
+
+        expect(retargeted.value).toBe(spring.value);
+        expect(retargeted.velocity).toBe(spring.velocity);
+        expect(retargeted.velocity).toBeGreaterThan(0);
+    });
+
+    it('decays towards where momentum carries it', () => {
+        const decay = startDecay(undefined, 2, 10, 0, { timeConstant: 0.5 });
+        expect(decay.target).toBe(7);
+
+        stepMotion(decay, 0.5);
+        expect(decay.velocity).toBeCloseTo(10 / Math.E, 9);
+        expect(stepMotion(decay, 10)).toBe(true);
+        expect(decay.value).toBeCloseTo(7, 6);
+    });
+});
+
+describe('Display springs', () => {
+    let display: Display;
+    let id: TileId;
+
+    beforeAll(() => {
+        logger.setLogLevel(LogLevel.NONE);
+    });
+
+    beforeEach(() => {
+        display = new Display({
+            cellWidth: 12,
+            cellHeight: 24,
+            worldWidth: 20,
+            worldHeight: 10,
+            viewportWidth: 10,
+            viewportHeight: 5,
+            renderer: new HeadlessRenderer(),
+            autoStart: false
+        });
+        id = display.createTile(0, 0, '@', '#FFFFFFFF', '#000000FF');
+    });
+
+    it('springs a tile to its target cell and finishes there', async () => {
+        const handle = display.springTile(id, { x: 3, scaleSymbolX: 2 }, { startTime: 0 });
+
+        display.render(100);
+        expect(display.getTile(id)!.x).toBeGreaterThan(0);
+        expect(display.getTileVelocity(id).x).toBeGreaterThan(0);
+
+        for (let t = 200; t <= 3000; t += 100) display.render(t);
+        await handle.finished;
+        expect(display.getTile(id)!.x).toBe(3);
+        expect(display.getTile(id)!.scaleSymbolX).toBe(2);
+        expect(display.getTilesAt(3, 0).map(tile => tile.id)).toContain(id);
+        expect(display.getTileVelocity(id)).toEqual({});
+    });
+
+    it('bends into a new target without stopping', () => {
+        const first = display.springTile(id, { x: 5 }, { startTime: 0 });
+        display.render(100);
+        const velocity = display.getTileVelocity(id).x!;
+
+        const second = display.springTile(id, { y: 4 });
+        expect(first.isFinished()).toBe(true);
+        expect(display.getTileVelocity(id).x).toBe(velocity);
+
+        display.render(150);
+        expect(display.getTile(id)!.x).toBeGreaterThan(0);
+        expect(display.getTile(id)!.y).toBeGreaterThan(0);
+        expect(second.isFinished()).toBe(false);
+    });
+
+    it('glides to a stop', async () => {
+        const handle = display.glideTile(id, { x: 4 }, { timeConstant: 0.25, startTime: 0 });
+
+        for (let t = 100; t <= 4000; t += 100) display.render(t);
+        await handle.finished;
+        expect(display.getTile(id)!.x).toBeCloseTo(1, 2);
+    });
+});
@@ -0,0 +1,108 @@
+import { describe, beforeAll, beforeEach, it, expect } from 'vitest';
+import { Display } from '../display';
+import { HeadlessRenderer } from '../renderer/headless-renderer';
+import { DEFAULT_PALETTE } from '../types';
+import { logger, LogLevel } from '../util/logger';
+
+describe('Palettes', () => {
+    let display: Display;
+
+    beforeAll(() => {
+        logger.setLogLevel(LogLevel.NONE);
+    });
+
+    beforeEach(() => {
+        display = new Display({
+            cellWidth: 12,
+            cellHeight: 24,
+            worldWidth: 10,
+            worldHeight: 10,
+            viewportWidth: 10,
+            viewportHeight: 10,
+            renderer: new HeadlessRenderer(),
+            autoStart: false,
+            palettes: {
+                [DEFAULT_PALETTE]: { wall: '#666666', floor: '#222222', danger: 'red' },
+                contrast: { wall: 'white', floor: 'black', danger: 'yellow', r: '#FF8800' }
+            }
+        });
+    });
+
+    it('resolves roles and recolors tiles when switched', () => {
+        const wall = display.createTile(0, 0, '#', '$wall', '$floor');
+        const literal = display.createTile(1, 0, '.', '#123456FF', '$floor');
+        expect(display.getTile(wall)!.color).toBe('#666666ff');
+        expect(display.getTile(wall)!.backgroundColor).toBe('#222222ff');
+
+        display.setActivePalette('contrast');
+        expect(display.getActivePalette()).toBe('contrast');
+        expect(display.getTile(wall)!.color).toBe('#ffffffff');
+        expect(display.getTile(wall)!.backgroundColor).toBe('#000000ff');
+        expect(display.getTile(literal)!.color).toBe('#123456FF');
+        expect(display.getTile(literal)!.backgroundColor).toBe('#000000ff');
+
+        display.setActivePalette(DEFAULT_PALETTE);
+        expect(display.getTile(wall)!.color).toBe('#666666ff');
+    });
+
+    it('lets a tile take up or drop a role', () => {
+        const id = display.createTile(0, 0, '#', '#123456FF', '#000000FF');
+        display.updateTileColor(id, '$danger');
+        expect(display.getTile(id)!.color).toBe('#ff0000ff');
+
+        display.setActivePalette('contrast');
+        expect(display.getTile(id)!.color).toBe('#ffff00ff');
+
+        display.updateTileColor(id, '#123456FF');
+        display.setActivePalette(DEFAULT_PALETTE);
+        expect(display.getTile(id)!.color).toBe('#123456FF');
+    });
+
+    it('falls back to the default palette and rejects unknown roles', () => {
+        display.addPalette('partial', { danger: 'magenta' });
+        display.setActivePalette('partial');
+        const id = display.createTile(0, 0, '#', '$wall', '$nothing');
+        expect(display.getTile(id)!.color).toBe('#666666ff');
+        expect(display.getTile(id)!.backgroundColor).toBe('#00000000');
+
+        display.setActivePalette('missing');
+        expect(display.getActivePalette()).toBe('partial');
+        display.removePalette('partial');
+        expect(display.getPalettes()).toEqual([DEFAULT_PALETTE, 'contrast', 'partial']);
+    });
+
+    it('picks up palette edits on tiles in use', () => {
+        const id = display.createTile(0, 0, '#', '$wall', '#000000FF');
+        display.setPaletteColors('contrast', { wall: 'blue' });
+        expect(display.getTile(id)!.color).toBe('#666666ff');
+
+        display.setPaletteColors(DEFAULT_PALETTE, { wall: 'green', floor: 'nonsense' });
+        expect(display.getTile(id)!.color).toBe('#008000ff');
+        expect(display.getPaletteColors(DEFAULT_PALETTE)!.floor).toBe('#222222ff');
+    });
+
+    it('moves animation endpoints with the palette', () => {
+        const id = display.createTile(0, 0, '#', '$floor', '#000000FF');
+        display.addColorAnimation(id, { fg: { start: '$floor', end: '$danger', duration: 1 }, startTime: 0 });
+
+        display.render(500);
+        expect(display.getTile(id)!.color).toBe('#911111ff');
+
+        display.setActivePalette('contrast');
+        display.render(500);
+        expect(display.getTile(id)!.color).toBe('#808000ff');
+
+        // Finishing hands the tile over to the end role
+        display.render(1000);
+        display.setActivePalette(DEFAULT_PALETTE);
+        expect(display.getTile(id)!.color).toBe('#ff0000ff');
+    });
+
+    it('uses palette roles as markup aliases', () => {
+        const ids = display.createString(0, 0, '{r}a{/}{wall}b{/}c');
+        expect(ids.map(id => display.getTile(id)!.color)).toEqual(['#FF0000FF', '#666666ff', '#FFFFFFFF']);
+
+        display.setActivePalette('contrast');
+        expect(ids.map(id => display.getTile(id)!.color)).toEqual(['#ff8800ff', '#ffffffff', '#FFFFFFFF']);
+    });
+});
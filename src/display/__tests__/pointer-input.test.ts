@@ -0,0 +1,95 @@
+import { describe, beforeEach, it, expect, vi } from 'vitest';
+import { PointerHit, PointerInput } from '../pointer-input';
+
+describe('PointerInput', () => {
+    let mockAddEventListener: ReturnType<typeof vi.fn>;
+    let mockRemoveEventListener: ReturnType<typeof vi.fn>;
+    let emitted: { type: string, x: number, y: number, dragStart?: { x: number, y: number } }[];
+    let input: PointerInput;
+
+    // One cell per 10 client pixels, nothing past 100
+    const resolve = (clientX: number, clientY: number): PointerHit | null =>
+        clientX < 0 || clientY < 0 || clientX >= 100 || clientY >= 100 ?
+            null :
+            { worldX: clientX / 10, worldY: clientY / 10 };
+
+    const dispatch = (type: string, clientX: number, clientY: number) => {
+        const handler = mockAddEventListener.mock.calls.find(([event]) => event === type)?.[1];
+        if (!handler) {
+            throw new Error(`No handler found for ${type} event`);
+        }
+        handler({ clientX, clientY, pointerId: 1, button: 0 } as PointerEvent);
+    };
+
+    beforeEach(() => {
+        mockAddEventListener = vi.fn();
+        mockRemoveEventListener = vi.fn();
+        emitted = [];
+        input = new PointerInput(
+            { addEventListener: mockAddEventListener, removeEventListener: mockRemoveEventListener },
+            resolve,
+            (type, hit, _event, dragStart) => emitted.push({
+                type,
+                x: Math.floor(hit.worldX),
+                y: Math.floor(hit.worldY),
+                dragStart
+            })
+        );
+        input.attach();
+    });
+
+    it('reports hover only when the pointer crosses into another cell', () => {
+        dispatch('pointermove', 5, 5);
+        dispatch('pointermove', 8, 5);
+        dispatch('pointermove', 15, 5);
+        dispatch('pointerleave', 15, 5);
+
+        expect(emitted.map(({ type, x, y }) => ({ type, x, y }))).toEqual([
+            { type: 'enter', x: 0, y: 0 },
+            { type: 'leave', x: 0, y: 0 },
+            { type: 'enter', x: 1, y: 0 },
+            { type: 'leave', x: 1, y: 0 }
+        ]);
+    });
+
+    it('clicks when the pointer is released without moving far', () => {
+        dispatch('pointerdown', 25, 35);
+        dispatch('pointermove', 27, 35);
+        dispatch('pointerup', 27, 35);
+
+        expect(emitted.map(event => event.type)).toEqual(['enter', 'click']);
+        expect(emitted[1]).toMatchObject({ x: 2, y: 3 });
+    });
+
+    it('drags once the pointer moves past the threshold', () => {
+        dispatch('pointerdown', 25, 35);
+        dispatch('pointermove', 45, 35);
+        dispatch('pointermove', 65, 35);
+        dispatch('pointerup', 65, 35);
+
+        const drags = emitted.filter(event => event.type.startsWith('drag'));
+        expect(drags.map(({ type, x }) => ({ type, x }))).toEqual([
+            { type: 'dragstart', x: 4 },
+            { type: 'drag', x: 4 },
+            { type: 'drag', x: 6 },
+            { type: 'dragend', x: 6 }
+        ]);
+        expect(drags.every(event => event.dragStart?.x === 2 && event.dragStart?.y === 3)).toBe(true);
+        expect(emitted.some(event => event.type === 'click')).toBe(false);
+    });
+
+    it('ends a drag released outside the element at the last hovered cell', () => {
+        dispatch('pointerdown', 25, 35);
+        dispatch('pointermove', 95, 35);
+        dispatch('pointerleave', 150, 35);
+        dispatch('pointerup', 150, 35);
+
+        expect(emitted[emitted.length - 1]).toMatchObject({ type: 'dragend', x: 9, y: 3 });
+    });
+
+    it('removes its listeners on detach', () => {
+        input.detach();
+
+        expect(mockRemoveEventListener).toHaveBeenCalledTimes(mockAddEventListener.mock.calls.length);
+    });
+});
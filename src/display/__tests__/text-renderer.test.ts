@@ -0,0 +1,118 @@
+import { describe, beforeAll, beforeEach, it, expect } from 'vitest';
+import { Display } from '../display';
+import { TextRenderer } from '../renderer/text-renderer';
+import { logger, LogLevel } from '../util/logger';
+
+describe('TextRenderer', () => {
+    let renderer: TextRenderer;
+    let display: Display;
+
+    beforeAll(() => {
+        logger.setLogLevel(LogLevel.NONE);
+    });
+
+    beforeEach(() => {
+        renderer = new TextRenderer({ emptyChar: '·' });
+        display = new Display({
+            cellWidth: 12,
+            cellHeight: 24,
+            worldWidth: 30,
+            worldHeight: 8,
+            viewportWidth: 30,
+            viewportHeight: 8,
+            renderer,
+            autoStart: false
+        });
+    });
+
+    it('shows the topmost tile in each cell', () => {
+        display.createTile(0, 0, 'a', '#FFFFFFFF', '#000000FF', 1);
+        display.createTile(0, 0, 'b', '#FF0000FF', '#00000000', 3);
+        display.createTile(0, 0, 'c', '#00FF00FF', '#112233FF', 2);
+        display.render(0);
+
+        expect(renderer.getLines()[0][0]).toBe('b');
+        expect(renderer.getForegroundGrid()[0][0]).toBe('#FF0000FF');
+        expect(renderer.getBackgroundGrid()[0][0]).toBe('#112233FF');
+    });
+
+    it('clears cells whose tiles moved away', () => {
+        const id = display.createTile(0, 0, '@', '#FFFFFFFF', '#000000FF');
+        display.render(0);
+        display.moveTile(id, 3, 0);
+        display.render(16);
+
+        expect(renderer.getLines()[0].slice(0, 4)).toBe('···@');
+    });
+
+    it('crops to the viewport', () => {
+        const small = new TextRenderer();
+        const scrolled = new Display({
+            cellWidth: 12,
+            cellHeight: 24,
+            worldWidth: 10,
+            worldHeight: 10,
+            viewportWidth: 3,
+            viewportHeight: 2,
+            renderer: small,
+            autoStart: false
+        });
+
+        scrolled.createString(0, 5, 'abcdefghij');
+        scrolled.setViewport(4, 4);
+        scrolled.render(0);
+
+        expect(small.getLines()).toEqual(['   ', 'efg']);
+        expect(small.getLines('world')).toHaveLength(10);
+    });
+
+    it('renders createString', () => {
+        display.createString(1, 1, '{r}Hello{/}, {b}Matrix{/} {g}Display!{/}');
+        display.render(0);
+
+        expect(renderer.toString()).toMatchSnapshot();
+        expect(renderer.getForegroundGrid()[1].slice(1, 8)).toMatchSnapshot();
+    });
+
+    it('renders createWrappedString', () => {
+        display.createWrappedString(
+            2,
+            1,
+            12,
+            5,
+            '{r}This is a very long string that will {g}automatically wrap{/} at word boundaries{/}',
+            {
+                backgroundColor: '#331111FF',
+                fillBox: true,
+                padding: 1
+            }
+        );
+        display.render(0);
+
+        expect(renderer.toString()).toMatchSnapshot();
+    });
+
+    it('renders setBackground under other tiles', () => {
+        display.setBackground('.', '#666666FF', '#222222FF');
+        display.createString(4, 3, 'on top', 2);
+        display.render(0);
+
+        expect(renderer.toString()).toMatchSnapshot();
+        expect(renderer.getBackgroundGrid()[3][4]).toBe('#000000FF');
+        expect(renderer.getBackgroundGrid()[0][0]).toBe('#222222FF');
+    });
+
+    it('renders the string example scene layout', () => {
+        display.setBackground('.', '#AAAAAAFF', '#222222FF');
+        display.createString(2, 0, '{r}Hello{/}, {b}Matrix{/} {g}Display!{/}', 5);
+        display.createString(2, 2, '{#FF00FF}Custom{/} {r}colored{/} {b}string{/}', 2);
+        display.createWrappedString(2, 5, 20, 2, '{r}This wraps at {g}word boundaries{/}{/}', {
+            zIndex: 1,
+            backgroundColor: '#331111FF',
+            fillBox: true
+        });
+        display.render(0);
+
+        expect(renderer.toString()).toMatchSnapshot();
+    });
+});
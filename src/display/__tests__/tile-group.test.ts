@@ -0,0 +1,120 @@
+import { describe, beforeAll, beforeEach, it, expect } from 'vitest';
+import { Display } from '../display';
+import { HeadlessRenderer } from '../renderer/headless-renderer';
+import { TileId } from '../types';
+import { logger, LogLevel } from '../util/logger';
+
+describe('TileGroup', () => {
+    let display: Display;
+    let head: TileId;
+    let tail: TileId;
+
+    beforeAll(() => {
+        logger.setLogLevel(LogLevel.NONE);
+    });
+
+    beforeEach(() => {
+        display = new Display({
+            cellWidth: 12,
+            cellHeight: 24,
+            worldWidth: 20,
+            worldHeight: 20,
+            viewportWidth: 10,
+            viewportHeight: 10,
+            renderer: new HeadlessRenderer(),
+            autoStart: false
+        });
+        head = display.createTile(5, 5, 'O', '#FFFFFFFF', '#000000FF', 2);
+        tail = display.createTile(6, 5, 'o', '#FFFFFFFF', '#000000FF', 1);
+    });
+
+    it('keeps members where they are relative to the origin', () => {
+        const group = display.createTileGroup(5, 5, [head, tail]);
+        group.setOrigin(8, 2);
+
+        expect(display.getTile(head)).toMatchObject({ x: 8, y: 2 });
+        expect(display.getTile(tail)).toMatchObject({ x: 9, y: 2 });
+        expect(display.getTilesAt(9, 2).map(tile => tile.id)).toEqual([tail]);
+        expect(display.getTilesAt(6, 5)).toHaveLength(0);
+    });
+
+    it('rotates members around the origin onto whole cells', () => {
+        const group = display.createTileGroup(5, 5, [head, tail]);
+        group.setRotation(Math.PI / 2);
+
+        expect(display.getTile(head)).toMatchObject({ x: 5, y: 5 });
+        expect(display.getTile(tail)).toMatchObject({ x: 5, y: 6 });
+        expect(display.getTile(tail)!.rotation).toBeCloseTo(Math.PI / 2);
+    });
+
+    it('adds the offset after rotating', () => {
+        const group = display.createTileGroup(5, 5, [tail]);
+        group.setTransform({ rotation: Math.PI, offsetX: 0.5 });
+
+        expect(display.getTile(tail)!.x).toBeCloseTo(4.5);
+        expect(display.getTile(tail)!.y).toBeCloseTo(5);
+    });
+
+    it('applies z bias and opacity on top of each member', () => {
+        const group = display.createTileGroup(5, 5, [head, tail]);
+        group.setZBias(10);
+        group.setOpacity(0.5);
+
+        expect(display.getTile(head)).toMatchObject({ zIndex: 12, color: '#ffffff80', backgroundColor: '#00000080' });
+        expect(display.getTile(tail)!.zIndex).toBe(11);
+
+        display.updateTileColor(head, '#FF0000FF');
+        expect(display.getTile(head)!.color).toBe('#ff000080');
+
+        group.setOpacity(1);
+        expect(display.getTile(head)!.color).toBe('#ff0000ff');
+    });
+
+    it('animates every member together through value animations', () => {
+        const group = display.createTileGroup(5, 5, [head, tail]);
+        display.addTileGroupAnimation(group.id, {
+            x: { start: 5, end: 9, duration: 1, loop: false },
+            startTime: 0
+        });
+
+        display.render(500);
+        expect(display.getTile(head)!.x).toBeCloseTo(7);
+        expect(display.getTile(tail)!.x).toBeCloseTo(8);
+
+        display.render(1000);
+        expect(display.getTile(head)!.x).toBe(9);
+        expect(display.getTile(tail)!.x).toBe(10);
+        expect(display.getTilesAt(10, 5).map(tile => tile.id)).toEqual([tail]);
+        expect(display.getPerformanceMetrics().valueAnimationCount).toBe(0);
+    });
+
+    it('keeps a tile in one group at a time and recolors it through that group', () => {
+        const faded = display.createTileGroup(5, 5, [head]);
+        faded.setOpacity(0.5);
+        const solid = display.createTileGroup(5, 5, [tail]);
+
+        solid.add(head);
+        expect(faded.getTileIds()).toEqual([]);
+        display.updateTileColor(head, '#FF0000FF');
+        expect(display.getTile(head)!.color).toBe('#ff0000ff');
+
+        faded.add(head);
+        display.updateTileColor(head, '#00FF00FF');
+        expect(display.getTile(head)!.color).toBe('#00ff0080');
+
+        // A removed group's members are recolored directly again
+        display.removeTileGroup(faded.id);
+        display.updateTileColor(head, '#0000FFFF');
+        expect(display.getTile(head)!.color).toBe('#0000FFFF');
+    });
+
+    it('forgets removed tiles and can take its tiles with it', () => {
+        const group = display.createTileGroup(5, 5, [head, tail]);
+        display.removeTile(tail);
+        expect(group.getTileIds()).toEqual([head]);
+
+        display.removeTileGroup(group.id, true);
+        expect(display.getTile(head)).toBeUndefined();
+        expect(display.getTileGroup(group.id)).toBeUndefined();
+    });
+});
@@ -0,0 +1,104 @@
+import { describe, beforeAll, beforeEach, it, expect } from 'vitest';
+import { Display } from '../display';
+import { HeadlessRenderer } from '../renderer/headless-renderer';
+import { TileId } from '../types';
+import { logger, LogLevel } from '../util/logger';
+
+describe('Timeline', () => {
+    let display: Display;
+    let a: TileId;
+    let b: TileId;
+
+    beforeAll(() => {
+        logger.setLogLevel(LogLevel.NONE);
+    });
+
+    beforeEach(() => {
+        display = new Display({
+            cellWidth: 12,
+            cellHeight: 24,
+            worldWidth: 20,
+            worldHeight: 10,
+            viewportWidth: 10,
+            viewportHeight: 5,
+            renderer: new HeadlessRenderer(),
+            autoStart: false
+        });
+        a = display.createTile(0, 0, 'a', '#FFFFFFFF', '#000000FF');
+        b = display.createTile(0, 1, 'b', '#FFFFFFFF', '#000000FF');
+    });
+
+    it('places items in sequence, in parallel groups and at labels', () => {
+        const timeline = display.createTimeline()
+            .value(a, { x: { start: 0, end: 4, duration: 1 } })
+            .addLabel('hit')
+            .parallel(group => group
+                .value(a, { y: { start: 0, end: 2, duration: 2 } })
+                .color(b, { fg: { start: '#FFFFFFFF', end: '#000000FF', duration: 0.5 } }))
+            .value(b, { x: { start: 0, end: 1, duration: 1 } }, 'hit+=0.5');
+
+        expect(timeline.getLabel('hit')).toBe(1);
+        expect(timeline.getDuration()).toBe(3);
+    });
+
+    it('drives its animations forwards, backwards and at any speed', () => {
+        const timeline = display.createTimeline()
+            .value(a, { x: { start: 0, end: 4, duration: 1 } })
+            .value(b, { x: { start: 0, end: 2, duration: 1 } });
+
+        timeline.play();
+        display.render(0);
+        display.render(500);
+        expect(display.getTile(a)!.x).toBe(2);
+        expect(display.getTile(b)!.x).toBe(0);
+
+        display.render(1500);
+        expect(display.getTile(a)!.x).toBe(4);
+        expect(display.getTile(b)!.x).toBe(1);
+
+        timeline.reverse();
+        timeline.setTimeScale(2);
+        display.render(1750);
+        expect(timeline.getTime()).toBe(1);
+        display.render(2000);
+        expect(display.getTile(a)!.x).toBe(2);
+        expect(display.getTile(b)!.x).toBe(0);
+
+        timeline.pause();
+        display.render(3000);
+        expect(display.getTile(a)!.x).toBe(2);
+        expect(timeline.isPlaying()).toBe(false);
+    });
+
+    it('seeks through chained steps', () => {
+        const timeline = display.createTimeline()
+            .value(a, { x: { start: 0, end: 2, duration: 1, next: { start: 2, end: 10, duration: 1 } } });
+
+        timeline.seek(1.5);
+        display.render(0);
+        expect(display.getTile(a)!.x).toBe(6);
+
+        timeline.seek(0.5);
+        display.render(16);
+        expect(display.getTile(a)!.x).toBe(1);
+    });
+
+    it('runs callbacks as playback passes them, in either direction', () => {
+        const calls: string[] = [];
+        const timeline = display.createTimeline()
+            .call(() => calls.push('start'))
+            .value(a, { x: { start: 0, end: 1, duration: 1 } })
+            .call(() => calls.push('end'));
+
+        timeline.play();
+        display.render(0);
+        display.render(1200);
+        expect(calls).toEqual(['start', 'end']);
+        expect(timeline.isPlaying()).toBe(false);
+
+        timeline.reverse();
+        display.render(1300);
+        display.render(2500);
+        expect(calls).toEqual(['start', 'end', 'start']);
+    });
+});
@@ -0,0 +1,83 @@
+import { TileId } from './types';
+
+export type AnimationKind = 'symbol' | 'color' | 'value' | 'keyframe' | 'motion' | 'group';
+
+export type AnimationEventType = 'start' | 'loop' | 'end';
+
+export interface AnimationEvent {
+    type: AnimationEventType;
+    kind: AnimationKind;
+    target: TileId | string;    // Tile id, or tile group id for group animations
+    handle: AnimationHandle;
+    cancelled?: boolean;        // For 'end': cancelled, replaced or its tile removed rather than run to completion
+}
+
+// What a handle asks its display to do
+export interface AnimationControls {
+    cancel(): void;
+    pause(): void;
+    resume(): void;
+    seek(seconds: number): void;
+}
+
+/**
+ * Returned by the Display's add*Animation methods, to wait for, pause, scrub or
+ * stop what they started. One handle covers everything a single call animates,
+ * including chained animations, and finishes when the last of them does.
+ *
+ * `finished` resolves when the animations run to completion, and also when they
+ * are cancelled, replaced by a newer animation of the same kind or lose their
+ * tile, so game logic waiting on it never hangs. Looping animations only finish
+ * that way.
+ */
+export class AnimationHandle {
+    public readonly finished: Promise<void>;
+    private resolveFinished!: () => void;
+    private done: boolean = false;
+    private paused: boolean = false;
+
+    constructor(private readonly controls: AnimationControls) {
+        this.finished = new Promise(resolve => {
+            this.resolveFinished = resolve;
+        });
+    }
+
+    public isFinished(): boolean {
+        return this.done;
+    }
+
+    public isPaused(): boolean {
+        return this.paused;
+    }
+
+    public cancel(): void {
+        if (this.done) return;
+        this.controls.cancel();
+    }
+
+    public pause(): void {
+        if (this.done || this.paused) return;
+        this.paused = true;
+        this.controls.pause();
+    }
+
+    public resume(): void {
+        if (this.done || !this.paused) return;
+        this.paused = false;
+        this.controls.resume();
+    }
+
+    // Jump to this many seconds into every animated property, counting from the
+    // start of its chain. Steps after a looping one are never reached.
+    public seek(seconds: number): void {
+        if (this.done) return;
+        this.controls.seek(seconds);
+    }
+
+    // Called by the display once the animations are gone
+    public settle(): void {
+        if (this.done) return;
+        this.done = true;
+        this.resolveFinished();
+    }
+}
@@ -0,0 +1,146 @@
+import { EasingFunction } from './types';
+import { Easing } from './util/easing';
+
+export interface ShakeOptions {
+    trauma?: number;            // Added to the current trauma, which is capped at 1 (default 0.5)
+    maxOffset?: number;         // Offset in cells at full trauma (default 1)
+    frequency?: number;         // How fast the shake wanders, in Hz (default 15)
+    decay?: number;             // Trauma lost per second (default 1)
+    easing?: EasingFunction;    // Maps trauma to shake strength (default quadratic)
+}
+
+export interface KickOptions {
+    duration?: number;          // Seconds to settle back (default 0.2)
+    easing?: EasingFunction;    // Progress of the return (default quadOut)
+}
+
+export interface ZoomPunchOptions {
+    duration?: number;          // Seconds to settle back (default 0.25)
+    easing?: EasingFunction;    // Progress of the return (default quadOut)
+}
+
+// Offset to apply to the viewport when presenting
+export interface CameraOffset {
+    x: number;                  // Cells
+    y: number;
+    zoom: number;               // 1 is no zoom
+}
+
+interface TimedEffect {
+    startTime: number | null;   // Set on the first update after the effect was added
+    duration: number;           // Milliseconds
+    easing: EasingFunction;
+    apply: (remaining: number, offset: CameraOffset) => void;
+}
+
+const NOISE_SIZE = 256;
+
+/**
+ * Transient camera effects: trauma-based shake, directional kicks and zoom punches.
+ * They only produce an offset for presenting the viewport, so tiles, dirty cells and
+ * the logical viewport are never touched.
+ */
+export class CameraEffects {
+    private trauma: number = 0;
+    private shakeOptions: Required<ShakeOptions> = {
+        trauma: 0.5,
+        maxOffset: 1,
+        frequency: 15,
+        decay: 1,
+        easing: Easing.quadIn
+    };
+    private timedEffects: TimedEffect[] = [];
+    private lastTimestamp: number | null = null;
+    private noise: Float32Array;
+
+    constructor() {
+        this.noise = new Float32Array(NOISE_SIZE);
+        for (let i = 0; i < NOISE_SIZE; i++) {
+            this.noise[i] = Math.random() * 2 - 1;
+        }
+    }
+
+    public shake(options: ShakeOptions = {}): void {
+        this.shakeOptions = {
+            ...this.shakeOptions,
+            ...options,
+            trauma: options.trauma ?? 0.5
+        };
+        this.trauma = Math.min(1, this.trauma + this.shakeOptions.trauma);
+    }
+
+    // Knock the view by (x, y) cells, then let it settle back
+    public kick(x: number, y: number, options: KickOptions = {}): void {
+        this.timedEffects.push({
+            startTime: null,
+            duration: (options.duration ?? 0.2) * 1000,
+            easing: options.easing ?? Easing.quadOut,
+            apply: (remaining, offset) => {
+                offset.x += x * remaining;
+                offset.y += y * remaining;
+            }
+        });
+    }
+
+    // Zoom in by amount (0.1 is 10%), then settle back
+    public zoomPunch(amount: number, options: ZoomPunchOptions = {}): void {
+        this.timedEffects.push({
+            startTime: null,
+            duration: (options.duration ?? 0.25) * 1000,
+            easing: options.easing ?? Easing.quadOut,
+            apply: (remaining, offset) => {
+                offset.zoom *= 1 + amount * remaining;
+            }
+        });
+    }
+
+    public clear(): void {
+        this.trauma = 0;
+        this.timedEffects = [];
+    }
+
+    public isActive(): boolean {
+        return this.trauma > 0 || this.timedEffects.length > 0;
+    }
+
+    public getTrauma(): number {
+        return this.trauma;
+    }
+
+    public update(timestamp: number): CameraOffset {
+        const elapsed = this.lastTimestamp === null ? 0 : Math.max(0, timestamp - this.lastTimestamp);
+        this.lastTimestamp = timestamp;
+
+        const offset: CameraOffset = { x: 0, y: 0, zoom: 1 };
+
+        if (this.trauma > 0) {
+            const strength = this.shakeOptions.easing(this.trauma) * this.shakeOptions.maxOffset;
+            const t = (timestamp / 1000) * this.shakeOptions.frequency;
+            // Separate stretches of the noise table for each axis
+            offset.x += this.sampleNoise(t) * strength;
+            offset.y += this.sampleNoise(t + NOISE_SIZE / 2) * strength;
+            this.trauma = Math.max(0, this.trauma - this.shakeOptions.decay * (elapsed / 1000));
+        }
+
+        this.timedEffects = this.timedEffects.filter(effect => {
+            if (effect.startTime === null) {
+                effect.startTime = timestamp;
+            }
+            const progress = Math.min(1, (timestamp - effect.startTime) / effect.duration);
+            effect.apply(1 - effect.easing(progress), offset);
+            return progress < 1;
+        });
+
+        return offset;
+    }
+
+    // Smooth 1D value noise in [-1, 1]
+    private sampleNoise(t: number): number {
+        const index = Math.floor(t);
+        const fraction = t - index;
+        const a = this.noise[((index % NOISE_SIZE) + NOISE_SIZE) % NOISE_SIZE];
+        const b = this.noise[(((index + 1) % NOISE_SIZE) + NOISE_SIZE) % NOISE_SIZE];
+        const smooth = fraction * fraction * (3 - 2 * fraction);
+        return a + (b - a) * smooth;
+    }
+}
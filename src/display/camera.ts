@@ -0,0 +1,185 @@
+import { Rect, Tile, TileId, Viewport } from './types';
+
+export type CameraSmoothing = 'none' | 'lerp' | 'spring';
+
+export interface CameraOptions {
+    smoothing?: CameraSmoothing;    // Default 'lerp'
+    lerp?: number;                  // Fraction of the remaining distance covered per 60Hz frame (default 0.15)
+    stiffness?: number;             // Spring constant (default 120)
+    damping?: number;               // Spring damping (default critical, 2 * sqrt(stiffness))
+    deadZone?: { width: number, height: number };   // Cells around the center the target can move in freely
+    bounds?: Rect | null;           // Keep the viewport inside this cell rectangle
+}
+
+type CameraTarget =
+    | { type: 'tile', tileId: TileId }
+    | { type: 'point', x: number, y: number };
+
+// Longest step the camera integrates in one go, so a stalled tab doesn't fling it
+const MAX_STEP_MS = 100;
+const FRAME_MS = 1000 / 60;
+
+/**
+ * Moves the viewport to keep a tile or a point in view. The camera works in cells
+ * and produces fractional viewport positions; the renderer takes care of drawing
+ * those on whole device pixels.
+ *
+ * Updated by the Display once per frame, after animations and frame callbacks, so
+ * it sees where tiles are this frame rather than where they were last frame.
+ */
+export class Camera {
+    private options: CameraOptions & { smoothing: CameraSmoothing, lerp: number, stiffness: number, damping: number };
+    private target: CameraTarget | null = null;
+    private velocity = { x: 0, y: 0 };
+    private lastTimestamp: number | null = null;
+    private snapNext: boolean = false;
+
+    constructor(options: CameraOptions = {}) {
+        const stiffness = options.stiffness ?? 120;
+        this.options = {
+            smoothing: options.smoothing ?? 'lerp',
+            lerp: options.lerp ?? 0.15,
+            stiffness,
+            damping: options.damping ?? 2 * Math.sqrt(stiffness),
+            deadZone: options.deadZone,
+            bounds: options.bounds
+        };
+    }
+
+    public setOptions(options: CameraOptions): void {
+        this.options = { ...this.options, ...options };
+        if (options.stiffness !== undefined && options.damping === undefined) {
+            this.options.damping = 2 * Math.sqrt(options.stiffness);
+        }
+    }
+
+    /**
+     * Follow a tile. With snap, the camera jumps to it on the next update instead of
+     * easing over.
+     */
+    public follow(tileId: TileId, snap: boolean = false): void {
+        this.target = { type: 'tile', tileId };
+        this.snapNext = snap;
+    }
+
+    public followPoint(x: number, y: number, snap: boolean = false): void {
+        this.target = { type: 'point', x, y };
+        this.snapNext = snap;
+    }
+
+    public stopFollowing(): void {
+        this.target = null;
+        this.velocity = { x: 0, y: 0 };
+    }
+
+    public isFollowing(): boolean {
+        return this.target !== null;
+    }
+
+    /**
+     * Work out where the viewport should be this frame. Returns null when there is
+     * nothing to follow, in which case the viewport is left alone.
+     */
+    public update(
+        timestamp: number,
+        viewport: Readonly<Viewport>,
+        getTile: (tileId: TileId) => Tile | undefined
+    ): { x: number, y: number } | null {
+        const elapsed = this.lastTimestamp === null ? 0 : timestamp - this.lastTimestamp;
+        this.lastTimestamp = timestamp;
+
+        const focus = this.getFocus(getTile);
+        if (!focus) {
+            return null;
+        }
+
+        const desired = this.clamp(this.applyDeadZone(focus, viewport), viewport);
+
+        if (this.snapNext || this.options.smoothing === 'none') {
+            this.snapNext = false;
+            this.velocity = { x: 0, y: 0 };
+            return desired;
+        }
+
+        const dt = Math.min(Math.max(elapsed, 0), MAX_STEP_MS);
+        let x = viewport.x;
+        let y = viewport.y;
+
+        if (this.options.smoothing === 'lerp') {
+            // Frame-rate independent version of "move lerp of the way there each frame"
+            const alpha = 1 - Math.pow(1 - this.options.lerp, dt / FRAME_MS);
+            x += (desired.x - x) * alpha;
+            y += (desired.y - y) * alpha;
+        } else {
+            // Integrate in small steps, a stiff spring blows up with long ones
+            const { stiffness, damping } = this.options;
+            for (let remaining = dt; remaining > 0; remaining -= FRAME_MS) {
+                const seconds = Math.min(remaining, FRAME_MS) / 1000;
+                this.velocity.x += ((desired.x - x) * stiffness - this.velocity.x * damping) * seconds;
+                this.velocity.y += ((desired.y - y) * stiffness - this.velocity.y * damping) * seconds;
+                x += this.velocity.x * seconds;
+                y += this.velocity.y * seconds;
+            }
+        }
+
+        // Settle exactly on the target instead of creeping towards it forever
+        if (Math.abs(desired.x - x) < 0.001 && Math.abs(this.velocity.x) < 0.01) x = desired.x;
+        if (Math.abs(desired.y - y) < 0.001 && Math.abs(this.velocity.y) < 0.01) y = desired.y;
+
+        return this.clamp({ x, y }, viewport);
+    }
+
+    // Point the camera should center on, in cells
+    private getFocus(getTile: (tileId: TileId) => Tile | undefined): { x: number, y: number } | null {
+        if (!this.target) return null;
+
+        if (this.target.type === 'point') {
+            return { x: this.target.x, y: this.target.y };
+        }
+
+        const tile = getTile(this.target.tileId);
+        if (!tile) return null;
+        return { x: tile.x + 0.5, y: tile.y + 0.5 };
+    }
+
+    // Top-left viewport position that keeps the focus inside the dead zone
+    private applyDeadZone(focus: { x: number, y: number }, viewport: Readonly<Viewport>): { x: number, y: number } {
+        const centerX = viewport.x + viewport.width / 2;
+        const centerY = viewport.y + viewport.height / 2;
+        const halfWidth = (this.options.deadZone?.width ?? 0) / 2;
+        const halfHeight = (this.options.deadZone?.height ?? 0) / 2;
+
+        let targetX = centerX;
+        let targetY = centerY;
+        if (this.snapNext) {
+            targetX = focus.x;
+            targetY = focus.y;
+        } else {
+            if (focus.x < centerX - halfWidth) targetX = focus.x + halfWidth;
+            if (focus.x > centerX + halfWidth) targetX = focus.x - halfWidth;
+            if (focus.y < centerY - halfHeight) targetY = focus.y + halfHeight;
+            if (focus.y > centerY + halfHeight) targetY = focus.y - halfHeight;
+        }
+
+        return {
+            x: targetX - viewport.width / 2,
+            y: targetY - viewport.height / 2
+        };
+    }
+
+    private clamp(position: { x: number, y: number }, viewport: Readonly<Viewport>): { x: number, y: number } {
+        const bounds = this.options.bounds;
+        if (!bounds) return position;
+
+        // A viewport larger than the bounds is centered on them
+        const clampAxis = (value: number, min: number, size: number, viewSize: number) =>
+            size <= viewSize ?
+                min + (size - viewSize) / 2 :
+                Math.max(min, Math.min(value, min + size - viewSize));
+
+        return {
+            x: clampAxis(position.x, bounds.x, bounds.width, viewport.width),
+            y: clampAxis(position.y, bounds.y, bounds.height, viewport.height)
+        };
+    }
+}
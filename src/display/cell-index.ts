@@ -0,0 +1,140 @@
+import { Tile, TileId } from "./types";
+
+interface IndexEntry {
+    x: number;        // Cell the tile is filed under
+    y: number;
+    order: number;    // Creation order, breaks zIndex ties
+}
+
+/**
+ * Spatial index from cells to the tiles in them. A tile belongs to the cell its
+ * top-left corner is in, so tiles at fractional positions (mid-animation) are
+ * indexed under the floor of their coordinates.
+ *
+ * Each cell's stack is kept sorted by zIndex, bottom to top, with ties in creation
+ * order, so rendering never has to sort. Call reorder() after changing a zIndex.
+ */
+export class CellIndex {
+    // Stacks by row, then column, so any integer cell has its own entry
+    private rows: Map<number, Map<number, Tile[]>> = new Map();
+    private entries: Map<TileId, IndexEntry> = new Map();
+    private nextOrder: number = 0;
+
+    public add(tile: Tile): void {
+        const entry = { x: Math.floor(tile.x), y: Math.floor(tile.y), order: this.nextOrder++ };
+        this.entries.set(tile.id, entry);
+        this.insert(entry, tile);
+    }
+
+    public remove(tile: Tile): void {
+        const entry = this.entries.get(tile.id);
+        if (!entry) return;
+
+        this.extract(entry, tile);
+        this.entries.delete(tile.id);
+    }
+
+    // Re-index a tile after its x/y changed. Cheap when it stays in the same cell.
+    public update(tile: Tile): void {
+        const entry = this.entries.get(tile.id);
+        if (!entry) return;
+
+        const x = Math.floor(tile.x);
+        const y = Math.floor(tile.y);
+        if (entry.x === x && entry.y === y) return;
+
+        this.extract(entry, tile);
+        entry.x = x;
+        entry.y = y;
+        this.insert(entry, tile);
+    }
+
+    // Move a tile to its new place in its stack after its zIndex changed.
+    public reorder(tile: Tile): void {
+        const entry = this.entries.get(tile.id);
+        if (!entry) return;
+
+        this.extract(entry, tile);
+        this.insert(entry, tile);
+    }
+
+    /**
+     * Tiles in cell (x, y), bottom to top.
+     */
+    public getTilesAt(x: number, y: number): Tile[] {
+        const stack = this.getStack(Math.floor(x), Math.floor(y));
+        return stack ? stack.slice() : [];
+    }
+
+    public getTilesInRect(x: number, y: number, width: number, height: number): Tile[] {
+        const tiles: Tile[] = [];
+        const startX = Math.floor(x);
+        const startY = Math.floor(y);
+        for (let cy = startY; cy < startY + height; cy++) {
+            const row = this.rows.get(cy);
+            if (!row) continue;
+            for (let cx = startX; cx < startX + width; cx++) {
+                const stack = row.get(cx);
+                if (stack) {
+                    tiles.push(...stack);
+                }
+            }
+        }
+        return tiles;
+    }
+
+    public clear(): void {
+        this.rows.clear();
+        this.entries.clear();
+    }
+
+    private getStack(x: number, y: number): Tile[] | undefined {
+        return this.rows.get(y)?.get(x);
+    }
+
+    private insert({ x, y }: IndexEntry, tile: Tile): void {
+        let row = this.rows.get(y);
+        if (!row) {
+            row = new Map();
+            this.rows.set(y, row);
+        }
+        const stack = row.get(x);
+        if (!stack) {
+            row.set(x, [tile]);
+            return;
+        }
+
+        // Binary search for the first tile that sorts after this one
+        const order = this.entries.get(tile.id)!.order;
+        let low = 0;
+        let high = stack.length;
+        while (low < high) {
+            const mid = (low + high) >> 1;
+            const other = stack[mid];
+            const comparison = other.zIndex - tile.zIndex || this.entries.get(other.id)!.order - order;
+            if (comparison > 0) {
+                high = mid;
+            } else {
+                low = mid + 1;
+            }
+        }
+        stack.splice(low, 0, tile);
+    }
+
+    private extract({ x, y }: IndexEntry, tile: Tile): void {
+        const row = this.rows.get(y);
+        const stack = row?.get(x);
+        if (!row || !stack) return;
+
+        const index = stack.indexOf(tile);
+        if (index !== -1) {
+            stack.splice(index, 1);
+        }
+        if (stack.length === 0) {
+            row.delete(x);
+            if (row.size === 0) {
+                this.rows.delete(y);
+            }
+        }
+    }
+}
@@ -1,14 +1,29 @@
-import { Tile } from "./types";
+import { Rect, Tile } from "./types";
 
+// Side length of the bitmap pages used by unbounded masks
+const PAGE_SIZE = 64;
+
+/**
+ * Tracks which cells need redrawing, as a Uint8Array bitmap plus a list of the
+ * cells that are set, so checking, listing and clearing only cost as much as the
+ * number of dirty cells.
+ *
+ * Bounded masks cover width x height cells and ignore anything outside. Unbounded
+ * masks accept any integer cell, including negative ones, and allocate bitmap pages
+ * as cells get marked.
+ */
 export class DirtyMask {
-    private mask: boolean[][];
+    private bits: Uint8Array;
+    private pages: Map<string, Uint8Array> = new Map();
+    private dirtyCells: {x: number, y: number}[] = [];
+    private sorted: boolean = true;     // Whether dirtyCells is in row-major order
 
     constructor(
         private readonly width: number,
-        private readonly height: number
+        private readonly height: number,
+        private readonly unbounded: boolean = false
     ) {
-        this.mask = Array(height).fill(0)
-            .map(() => Array(width).fill(false));
+        this.bits = new Uint8Array(unbounded ? 0 : width * height);
     }
 
     public markDirty(tile: Tile) {
@@ -22,7 +37,7 @@ export class DirtyMask {
             // intersect that bounding box with the dirty mask and mark any tile x/y combos that it intersects at all.
             let minX = Math.max(tile.x, Math.floor(tile.x));
             let maxX = Math.min(tile.x + 1, Math.ceil(tile.x + 1));
-            let minY = Math.max(tile.y, Math.floor(tile.y)); 
+            let minY = Math.max(tile.y, Math.floor(tile.y));
             let maxY = Math.min(tile.y + 1, Math.ceil(tile.y + 1));
 
             if(tile.noClip) {
@@ -37,37 +52,176 @@ export class DirtyMask {
                 for (let x = minX; x <= maxX; x++) {
                     tilesToMark.push({x: Math.floor(x), y: Math.floor(y)});
                 }
-            } 
+            }
 
             // tilesToMark.push({x: Math.floor(tile.x), y: Math.floor(tile.y)});
         } else {
             tilesToMark.push({x: tile.x, y: tile.y});
         }
-        
+
         // logger.debug(`Marking dirty tiles: `, tilesToMark);
 
         for (const {x, y} of tilesToMark) {
-            if (x >= 0 && x < this.width && 
-                y >= 0 && y < this.height) {
-                this.mask[y][x] = true;
+            this.markCell(x, y);
+        }
+    }
+
+    public markRegionDirty(x: number, y: number, width: number, height: number) {
+        let minX = Math.floor(x);
+        let minY = Math.floor(y);
+        let maxX = Math.ceil(x + width);
+        let maxY = Math.ceil(y + height);
+        if (!this.unbounded) {
+            minX = Math.max(0, minX);
+            minY = Math.max(0, minY);
+            maxX = Math.min(this.width, maxX);
+            maxY = Math.min(this.height, maxY);
+        }
+
+        for (let cy = minY; cy < maxY; cy++) {
+            for (let cx = minX; cx < maxX; cx++) {
+                this.markCell(cx, cy);
             }
         }
     }
 
     public clear() {
-        this.mask = this.mask.map(row => row.fill(false));
+        if (this.unbounded) {
+            // Pages are cheap to recreate, and dropping them keeps a panning view from piling them up
+            this.pages.clear();
+        } else {
+            for (const {x, y} of this.dirtyCells) {
+                this.bits[y * this.width + x] = 0;
+            }
+        }
+        this.dirtyCells = [];
+        this.sorted = true;
     }
 
     public isDirty(x: number, y: number): boolean {
-        return this.mask[Math.floor(y)][Math.floor(x)];
+        return this.getBit(Math.floor(x), Math.floor(y)) === 1;
+    }
+
+    /**
+     * Dirty cells in row-major order. Sorted once after cells are marked, however
+     * often it's called in between.
+     */
+    public getDirtyCells(): readonly {x: number, y: number}[] {
+        if (!this.sorted) {
+            this.dirtyCells.sort((a, b) => a.y - b.y || a.x - b.x);
+            this.sorted = true;
+        }
+        return this.dirtyCells;
+    }
+
+    public getDirtyCount(): number {
+        return this.dirtyCells.length;
+    }
+
+    /**
+     * Dirty cells merged into non-overlapping rectangles: each row is split into runs,
+     * and runs spanning the same columns on consecutive rows are stacked.
+     */
+    public getDirtyRects(): Rect[] {
+        const rects: Rect[] = [];
+        // Rectangles that can still grow downwards, keyed by their column span
+        let open: Map<string, Rect> = new Map();
+        let nextOpen: Map<string, Rect> = new Map();
+        let lastY: number | null = null;
+        let runStart: {x: number, y: number} | null = null;
+        let runEnd = 0;
+
+        const closeRun = () => {
+            if (!runStart) return;
+            const key = `${runStart.x},${runEnd}`;
+            const rect = open.get(key);
+            if (rect && rect.y + rect.height === runStart.y) {
+                rect.height++;
+                nextOpen.set(key, rect);
+            } else {
+                const created = { x: runStart.x, y: runStart.y, width: runEnd - runStart.x, height: 1 };
+                rects.push(created);
+                nextOpen.set(key, created);
+            }
+            runStart = null;
+        };
+
+        for (const cell of this.getDirtyCells()) {
+            if (cell.y !== lastY) {
+                closeRun();
+                open = nextOpen;
+                nextOpen = new Map();
+                lastY = cell.y;
+            }
+            if (runStart && cell.x === runEnd) {
+                runEnd++;
+                continue;
+            }
+            closeRun();
+            runStart = cell;
+            runEnd = cell.x + 1;
+        }
+        closeRun();
+
+        return rects;
     }
 
     public hasDirtyTiles(): boolean {
-        return this.mask.some(row => row.some(cell => cell));
+        return this.dirtyCells.length > 0;
     }
 
-    // For debug visualization
+    // For debug visualization. Unbounded masks are sampled over (0,0)-(width,height).
     public getMask(): readonly boolean[][] {
-        return this.mask;
+        return Array(this.height).fill(0)
+            .map((_, y) => Array(this.width).fill(false)
+                .map((_, x) => this.getBit(x, y) === 1));
+    }
+
+    private markCell(x: number, y: number) {
+        if (!this.unbounded &&
+            (x < 0 || x >= this.width || y < 0 || y >= this.height)) {
+            return;
+        }
+
+        if (this.getBit(x, y) === 0) {
+            this.setBit(x, y);
+            this.dirtyCells.push({x, y});
+            this.sorted = false;
+        }
+    }
+
+    private getBit(x: number, y: number): number {
+        if (!this.unbounded) {
+            if (x < 0 || x >= this.width || y < 0 || y >= this.height) return 0;
+            return this.bits[y * this.width + x];
+        }
+
+        const page = this.pages.get(this.pageKey(x, y));
+        return page ? page[this.pageOffset(x, y)] : 0;
+    }
+
+    private setBit(x: number, y: number) {
+        if (!this.unbounded) {
+            this.bits[y * this.width + x] = 1;
+            return;
+        }
+
+        const key = this.pageKey(x, y);
+        let page = this.pages.get(key);
+        if (!page) {
+            page = new Uint8Array(PAGE_SIZE * PAGE_SIZE);
+            this.pages.set(key, page);
+        }
+        page[this.pageOffset(x, y)] = 1;
+    }
+
+    private pageKey(x: number, y: number): string {
+        return `${Math.floor(x / PAGE_SIZE)},${Math.floor(y / PAGE_SIZE)}`;
+    }
+
+    private pageOffset(x: number, y: number): number {
+        const px = ((x % PAGE_SIZE) + PAGE_SIZE) % PAGE_SIZE;
+        const py = ((y % PAGE_SIZE) + PAGE_SIZE) % PAGE_SIZE;
+        return py * PAGE_SIZE + px;
     }
-} 
\ No newline at end of file
+}
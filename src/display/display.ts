@@ -1,8 +1,23 @@
 import { TextParser } from './util/text-parser';
-import { Color, Tile, TileId, Viewport, SymbolAnimation, ColorAnimation, ValueAnimation, TileColorAnimationOptions, TileConfig, ValueAnimationOption, ColorAnimationOptions, TileValueAnimationsOptions, BlendMode } from './types';
-import { interpolateColor } from './util/color';
+import { Color, Tile, TileId, Viewport, SymbolAnimation, ColorAnimation, ValueAnimation, TileColorAnimationOptions, TileConfig, ValueAnimationOption, ColorAnimationOptions, TileValueAnimationsOptions, TileGroupAnimationOptions, TileKeyframeAnimationOptions, KeyframeTrackOption, ColorSpace, MotionProperty, MotionValues, SpringOptions, DecayOptions, BlendMode, FillDirection, RegionEvent, Rect, ZoomOptions, PointerCellEvent, LayerOptions, DEFAULT_LAYER, Palette, DEFAULT_PALETTE, PALETTE_ROLE_PREFIX } from './types';
+import { interpolateColor, isOpaqueColor, normalizeColor, sampleGradient } from './util/color';
 import { logger } from './util/logger';
+import { Easing, resolveEasing } from './util/easing';
 import { DirtyMask } from './dirty-mask';
+import { CellIndex } from './cell-index';
+import { Camera, CameraOptions } from './camera';
+import { KickOptions, ShakeOptions, ZoomPunchOptions } from './camera-effects';
+import { View, ViewOptions } from './view';
+import { PointerHit, PointerInput } from './pointer-input';
+import { TileGroup, TileGroupTransform, TilePlacement } from './tile-group';
+import { AnimationEvent, AnimationHandle, AnimationKind } from './animation-handle';
+import { ResolvedKeyframeTrack, resolveKeyframeTrack, sampleKeyframeTrack } from './keyframes';
+import { Timeline } from './timeline';
+import { Motion, retargetSpring, startDecay, stepMotion } from './motion';
+import { LayerPresentation, Renderer } from './renderer/renderer';
+import { CanvasRenderer } from './renderer/canvas-renderer';
+
+export { FillDirection, Easing };
 
 interface PerformanceMetrics {
     lastRenderTime: number;
@@ -20,18 +35,74 @@ interface PerformanceMetrics {
     averageWorldUpdateTime: number;
     lastDirtyTileCount: number;
     averageDirtyTileCount: number;
+    lastCulledTileCount: number;
+    averageCulledTileCount: number;
+}
+
+// Bookkeeping for the animations started by one add*Animation call
+interface AnimationState {
+    handle: AnimationHandle;
+    kind: AnimationKind;
+    target: string;
+    started: boolean;
+    stepped: boolean;                   // Advanced this frame
+    looped: boolean;                    // Wrapped around this frame
+    cycles: Map<string, number>;        // Loops completed so far, by property
+    pausedAt: number | null;
+    refresh: boolean;                   // Seeked while paused, so step once at the paused time
+    ended: 'completed' | 'cancelled' | null;
+    chains?: { [property: string]: ChainedAnimation | undefined };     // First step of each property, for seeking
+}
+
+// What seeking needs from a step of a value or color animation chain
+interface ChainedAnimation {
+    startTime: number;
+    running: boolean;
+    duration: number;
+    offset: number;
+    loop: boolean;
+    next?: ChainedAnimation;
+}
+
+type KeyframeNumberProperty = 'x' | 'y' | 'zIndex' | 'bgPercent' | 'offsetSymbolX' | 'offsetSymbolY' | 'scaleSymbolX' | 'scaleSymbolY' | 'rotation';
+type KeyframeColorProperty = 'color' | 'backgroundColor';
+
+const KEYFRAME_NUMBER_PROPERTIES: KeyframeNumberProperty[] = ['x', 'y', 'zIndex', 'bgPercent', 'offsetSymbolX', 'offsetSymbolY', 'scaleSymbolX', 'scaleSymbolY', 'rotation'];
+const KEYFRAME_COLOR_PROPERTIES: KeyframeColorProperty[] = ['color', 'backgroundColor'];
+const MOTION_PROPERTIES: MotionProperty[] = ['x', 'y', 'offsetSymbolX', 'offsetSymbolY', 'scaleSymbolX', 'scaleSymbolY', 'rotation'];
+
+interface KeyframeAnimation {
+    numbers: { [K in KeyframeNumberProperty]?: ResolvedKeyframeTrack<number> };
+    colors: { [K in KeyframeColorProperty]?: ResolvedKeyframeTrack<Color> };
+    char?: ResolvedKeyframeTrack<string>;
+    colorSpace: ColorSpace;
+    startTime: number;
+    running: boolean;
+}
+
+interface Layer {
+    id: string;
+    options: Required<LayerOptions>;
+    dirtyMask: DirtyMask;       // Shared by all layers when the renderer can't keep them apart
 }
 
 export interface DisplayOptions {
     elementId?: string;
     cellWidth: number;
     cellHeight: number;
-    worldWidth: number;
+    worldWidth: number;     // In unbounded mode, only sizes debug views and 'world' exports
     worldHeight: number;
+    unbounded?: boolean;    // Let tiles and the viewport go anywhere, including negative cells (default false)
+    regionSize?: number;    // Cells per side of the regions reported to region callbacks (default 32)
     viewportWidth: number;
     viewportHeight: number;
     defaultFont?: string;
     customFont?: string;
+    camera?: CameraOptions;
+    renderer?: Renderer;    // Defaults to a CanvasRenderer on elementId
+    autoStart?: boolean;    // Start the requestAnimationFrame loop (default true)
+    palettes?: { [name: string]: Palette };     // Added to the default palette, or merged into it if named DEFAULT_PALETTE
+    palette?: string;       // Active palette (default DEFAULT_PALETTE)
 }
 
 export interface StringOptions {
@@ -45,68 +116,19 @@ export interface StringOptions {
     };
 }
 
-export enum FillDirection {
-    TOP,
-    RIGHT,
-    BOTTOM,
-    LEFT
-}
-
-export const Easing = {
-    // Linear (no easing)
-    linear: (t: number): number => t,
-    
-    // Sine
-    sineIn: (t: number): number => 1 - Math.cos((t * Math.PI) / 2),
-    sineOut: (t: number): number => Math.sin((t * Math.PI) / 2),
-    sineInOut: (t: number): number => -(Math.cos(Math.PI * t) - 1) / 2,
-    
-    // Quadratic
-    quadIn: (t: number): number => t * t,
-    quadOut: (t: number): number => 1 - (1 - t) * (1 - t),
-    quadInOut: (t: number): number => t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2,
-    
-    // Cubic
-    cubicIn: (t: number): number => t * t * t,
-    cubicOut: (t: number): number => 1 - Math.pow(1 - t, 3),
-    cubicInOut: (t: number): number => t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2,
-    
-    // Exponential
-    expoIn: (t: number): number => t === 0 ? 0 : Math.pow(2, 10 * t - 10),
-    expoOut: (t: number): number => t === 1 ? 1 : 1 - Math.pow(2, -10 * t),
-    expoInOut: (t: number): number => {
-        if (t === 0) return 0;
-        if (t === 1) return 1;
-        if (t < 0.5) return Math.pow(2, 20 * t - 10) / 2;
-        return (2 - Math.pow(2, -20 * t + 10)) / 2;
-    },
-    
-    // Bounce
-    bounceOut: (t: number): number => {
-        const n1 = 7.5625;
-        const d1 = 2.75;
-        if (t < 1 / d1) return n1 * t * t;
-        if (t < 2 / d1) return n1 * (t -= 1.5 / d1) * t + 0.75;
-        if (t < 2.5 / d1) return n1 * (t -= 2.25 / d1) * t + 0.9375;
-        return n1 * (t -= 2.625 / d1) * t + 0.984375;
-    },
-    bounceIn: (t: number): number => 1 - Easing.bounceOut(1 - t),
-    bounceInOut: (t: number): number => 
-        t < 0.5 ? (1 - Easing.bounceOut(1 - 2 * t)) / 2 : (1 + Easing.bounceOut(2 * t - 1)) / 2
-};
-
 export class Display {
-    private displayCanvas: HTMLCanvasElement;    // The canvas shown to the user
-    private displayCtx: CanvasRenderingContext2D;
-    private worldCanvas: HTMLCanvasElement;      // Full world buffer
-    private worldCtx: CanvasRenderingContext2D;
-    private viewport: Viewport;
+    private renderer: Renderer;
+    private mainView: View;
+    private views: Map<string, View> = new Map();     // Extra views, presented over the main one in insertion order
+    private cellWidth: number;
+    private cellHeight: number;
     private metrics: PerformanceMetrics;
 
     private worldWidth: number;
     private worldHeight: number;
-    private readonly scale: number;
+    private unbounded: boolean;
     private tileMap: Map<TileId, Tile> = new Map();
+    private cellIndex: CellIndex = new CellIndex();
     private tileIdCounter: number = 0;
 
     private boundRenderFrame: (timestamp: number) => void;
@@ -121,87 +143,75 @@ export class Display {
         offsetSymbolY?: ValueAnimation,
         scaleSymbolX?: ValueAnimation,
         scaleSymbolY?: ValueAnimation,
-        rotation?: ValueAnimation
+        rotation?: ValueAnimation,
+        zIndex?: ValueAnimation
     }> = new Map();
+    private keyframeAnimations: Map<TileId, KeyframeAnimation> = new Map();
+    private motions: Map<TileId, { [P in MotionProperty]?: Motion }> = new Map();
+    private tileGroups: Map<string, TileGroup> = new Map();
+    private tileGroupsByTile: Map<TileId, TileGroup> = new Map();
+    private tileGroupIdCounter: number = 0;
+    private groupAnimations: Map<string, { [K in keyof TileGroupTransform]?: ValueAnimation }> = new Map();
+    private animationStates: Map<string, AnimationState> = new Map();    // By kind and target
+    private animationCallbacks: Set<(event: AnimationEvent, display: Display) => void> = new Set();
+    private timelines: Set<Timeline> = new Set();
+    private updatingAnimations: boolean = false;
+    private lastFrameTime: number | null = null;
 
     private hasChanges: boolean = true;
-    private cellWidthCSS: number;
-    private cellHeightCSS: number;
-    private cellWidthScaled: number;
-    private cellHeightScaled: number;
     
     private textParser: TextParser;
+    private palettes: Map<string, Palette> = new Map();
+    private activePalette: string = DEFAULT_PALETTE;
+    private activePaletteColors: Palette;                   // Every role's color, default palette filling the gaps
 
-    private dirtyMask: DirtyMask;
+    private layers: Map<string, Layer> = new Map();
+    private sortedLayers: Layer[] = [];                     // Bottom to top
+    private layered: boolean;                               // Whether the renderer keeps a buffer per layer
     private useDirtyMask: boolean = true;
+    private frameDirtyRects: Rect[] = [];                   // Cells redrawn this frame in main view cells, for present
 
     private frameCallbacks: Set<(display: Display) => void> = new Set();
+    private regionCallbacks: Set<(event: RegionEvent, display: Display) => void> = new Set();
+    private visibleRegions: Map<string, RegionEvent> = new Map();
+    private regionSize: number;
+    private pointerCallbacks: Set<(event: PointerCellEvent, display: Display) => void> = new Set();
+    private pointerInput: PointerInput | null = null;
 
     constructor(options: DisplayOptions) {
         logger.info('Initializing Display with options:', options);
         
-        this.scale = window.devicePixelRatio || 1;
-        
         this.worldWidth = options.worldWidth;
         this.worldHeight = options.worldHeight;
-        this.cellWidthCSS = options.cellWidth;
-        this.cellHeightCSS = options.cellHeight;
-        
-        if (!options.elementId) {
-            logger.error('elementId is required');
-            throw new Error('elementId is required in DisplayConfig');
-        }
-        
-        this.displayCanvas = document.getElementById(options.elementId) as HTMLCanvasElement;
-        if (!this.displayCanvas) {
-            logger.error(`Canvas element not found: ${options.elementId}`);
-            throw new Error(`Canvas element not found: ${options.elementId}`);
-        }
-
-        this.displayCtx = this.displayCanvas.getContext('2d')!;
-        
-        this.worldCanvas = document.createElement('canvas');
-        this.worldCtx = this.worldCanvas.getContext('2d')!;
-
-        const displayWidth = options.viewportWidth * this.cellWidthCSS;
-        const displayHeight = options.viewportHeight * this.cellHeightCSS;
-
-        [this.displayCanvas, this.worldCanvas].forEach(canvas => {
-            canvas.style.width = `${displayWidth}px`;
-            canvas.style.height = `${displayHeight}px`;
-            canvas.width = displayWidth * this.scale;
-            canvas.height = displayHeight * this.scale;
-        });
-
-        [this.displayCtx, this.worldCtx].forEach(ctx => {
-            ctx.scale(this.scale, this.scale);
-        });
-
-        this.cellWidthScaled = options.cellWidth * this.scale;
-        this.cellHeightScaled = options.cellHeight * this.scale;
-        
-        this.displayCanvas.width = options.viewportWidth * this.cellWidthScaled;
-        this.displayCanvas.height = options.viewportHeight * this.cellHeightScaled;
-        
-        this.worldCanvas.width = options.worldWidth * this.cellWidthScaled;
-        this.worldCanvas.height = options.worldHeight * this.cellHeightScaled;
-        
-        this.displayCanvas.style.width = `${options.viewportWidth * this.cellWidthCSS}px`;
-        this.displayCanvas.style.height = `${options.viewportHeight * this.cellHeightCSS}px`;
-
-        [this.displayCtx, this.worldCtx].forEach(ctx => {
-            ctx.imageSmoothingEnabled = false;
-            ctx.textRendering = 'geometricPrecision';
+        this.unbounded = options.unbounded ?? false;
+        this.regionSize = options.regionSize ?? 32;
+
+        this.renderer = options.renderer ?? new CanvasRenderer(options.elementId);
+        this.renderer.initialize({
+            worldWidth: options.worldWidth,
+            worldHeight: options.worldHeight,
+            unbounded: this.unbounded,
+            viewportWidth: options.viewportWidth,
+            viewportHeight: options.viewportHeight,
+            cellWidth: options.cellWidth,
+            cellHeight: options.cellHeight,
+            defaultFont: options.defaultFont,
+            customFont: options.customFont,
+            invalidateRegion: (x, y, width, height, layer) => {
+                const invalidated = layer === undefined ? this.sortedLayers : [this.layers.get(layer)];
+                invalidated.forEach(target => target?.dirtyMask.markRegionDirty(x, y, width, height));
+                this.hasChanges = true;
+            }
         });
+        this.layered = !!this.renderer.addLayer;
 
-        this.viewport = {
-            x: 0,
-            y: 0,
+        this.cellWidth = options.cellWidth;
+        this.cellHeight = options.cellHeight;
+        this.mainView = new View({
             width: options.viewportWidth,
-            height: options.viewportHeight
-        };
-
-        this.setupFont(options.defaultFont, options.customFont);
+            height: options.viewportHeight,
+            camera: options.camera
+        }, this.unbounded ? null : { width: this.worldWidth, height: this.worldHeight });
 
         this.metrics = {
             lastRenderTime: 0,
@@ -218,10 +228,12 @@ export class Display {
             averageAnimationTime: 0,
             averageWorldUpdateTime: 0,
             lastDirtyTileCount: 0,
-            averageDirtyTileCount: 0
+            averageDirtyTileCount: 0,
+            lastCulledTileCount: 0,
+            averageCulledTileCount: 0
         };
 
-        this.textParser = new TextParser({
+        this.palettes.set(DEFAULT_PALETTE, {
             'r': '#FF0000FF',  // red
             'g': '#00FF00FF',  // green
             'b': '#0088FFFF',  // blue
@@ -229,26 +241,27 @@ export class Display {
             'm': '#FF00FFFF',  // magenta
             'w': '#FFFFFFFF',  // white
         });
+        this.activePaletteColors = { ...this.palettes.get(DEFAULT_PALETTE) };
+        this.textParser = new TextParser(this.activePaletteColors);
+        Object.entries(options.palettes ?? {}).forEach(([name, colors]) => {
+            if (name === DEFAULT_PALETTE) {
+                this.setPaletteColors(name, colors);
+            } else {
+                this.addPalette(name, colors);
+            }
+        });
+        if (options.palette) {
+            this.setActivePalette(options.palette);
+        }
 
-        this.dirtyMask = new DirtyMask(options.worldWidth, options.worldHeight);
+        this.addLayer(DEFAULT_LAYER);
 
         logger.info('Display initialization complete');
 
         this.boundRenderFrame = this.renderFrame.bind(this);
-        this.startRenderLoop();
-    }
-
-    private setupFont(defaultFont?: string, customFont?: string) {
-        const fontFamily = customFont || defaultFont || 'monospace';
-        const fontSize = Math.floor(this.cellHeightScaled * 0.8);
-        
-        [this.displayCtx, this.worldCtx].forEach(ctx => {
-            ctx.font = `normal normal ${fontSize}px ${fontFamily}`;
-            ctx.textAlign = 'center';
-            ctx.textBaseline = 'middle';
-            ctx.fontKerning = 'none';
-            ctx.textRendering = 'geometricPrecision';
-        });
+        if (options.autoStart ?? true) {
+            this.startRenderLoop();
+        }
     }
 
     public createTile(
@@ -263,13 +276,21 @@ export class Display {
         this.hasChanges = true;
         const id = this.generateTileId();
         logger.verbose(`Creating tile ${id} at (${x},${y})`);
+
+        let layer = config?.layer ?? DEFAULT_LAYER;
+        if (!this.layers.has(layer)) {
+            logger.warn(`Attempted to create tile on non-existent layer: ${layer}`);
+            layer = DEFAULT_LAYER;
+        }
+        const resolvedColor = this.validateColor(color, `for tile ${id}`);
+        const resolvedBackgroundColor = this.validateColor(backgroundColor, `for tile ${id}`);
         const tile: Tile = {
             id,
             x,
             y,
             char,
-            color,
-            backgroundColor,
+            color: resolvedColor ?? '#FFFFFFFF',
+            backgroundColor: resolvedBackgroundColor ?? '#00000000',
             zIndex,
             bgPercent: config?.bgPercent ?? 1,
             fillDirection: config?.fillDirection ?? FillDirection.BOTTOM,
@@ -280,10 +301,21 @@ export class Display {
             rotation: 0,
             noClip: config?.noClip ?? false,
             blendMode: config?.blendMode ?? BlendMode.SourceOver,
+            layer
          };
+        // Palette roles, so the tile follows them when the palette changes
+        const colorRole = this.getColorRole(color);
+        const backgroundColorRole = this.getColorRole(backgroundColor);
+        if (resolvedColor && colorRole !== undefined) {
+            tile.colorRole = colorRole;
+        }
+        if (resolvedBackgroundColor && backgroundColorRole !== undefined) {
+            tile.backgroundColorRole = backgroundColorRole;
+        }
         
         this.tileMap.set(id, tile);
-        this.dirtyMask.markDirty(tile);
+        this.cellIndex.add(tile);
+        this.markDirty(tile);
         return id;
     }
 
@@ -296,16 +328,17 @@ export class Display {
                 return;
             }
 
-            if (newX < 0 || newX >= this.worldWidth || newY < 0 || newY >= this.worldHeight) {
+            if (!this.isInWorld(newX, newY)) {
                 logger.warn(`Attempted to move tile outside bounds: (${newX},${newY})`);
                 return;
             }
 
             logger.verbose(`Moving tile ${tileId} to (${newX},${newY})`);
-            this.dirtyMask.markDirty(tile);
+            this.markDirty(tile);
             tile.x = newX;
             tile.y = newY;
-            this.dirtyMask.markDirty(tile);
+            this.cellIndex.update(tile);
+            this.markDirty(tile);
         }
     }
 
@@ -319,194 +352,347 @@ export class Display {
             }
             
             logger.verbose(`Removing tile ${tileId}`);
-            this.dirtyMask.markDirty(tile);
+            this.markDirty(tile);
 
-            this.symbolAnimations.delete(tileId);
-            this.colorAnimations.delete(tileId);
-            this.valueAnimations.delete(tileId);
+            this.clearAnimations(tileId);
+            this.tileGroupsByTile.get(tileId)?.remove(tileId);
+            this.cellIndex.remove(tile);
             this.tileMap.delete(tileId);
         }
     }
 
-    public updateTileColor(tileId: TileId, newColor: Color): void {
+    public setTileZIndex(tileId: TileId, zIndex: number): void {
         const tile = this.tileMap.get(tileId);
-        if (tile && tile.color !== newColor) {
+        if (!tile) {
+            logger.warn(`Attempted to set zIndex of non-existent tile: ${tileId}`);
+            return;
+        }
+
+        if (tile.zIndex !== zIndex) {
             this.hasChanges = true;
-            tile.color = newColor;
+            tile.zIndex = zIndex;
+            this.cellIndex.reorder(tile);
+            this.markDirty(tile);
+        }
+    }
 
-            this.dirtyMask.markDirty(tile);
+    // A palette role such as '$danger' keeps the tile following it when the palette changes
+    public updateTileColor(tileId: TileId, color: Color): void {
+        const newColor = this.validateColor(color, `for tile ${tileId}`);
+        if (!newColor) return;
+
+        const tile = this.tileMap.get(tileId);
+        if (tile) {
+            tile.colorRole = this.getColorRole(color);
         }
+        this.recolorTile(tileId, newColor);
     }
 
-    private updateWorldCanvas(): void {
-        if (!this.dirtyMask.hasDirtyTiles()) return;
+    private recolorTile(tileId: TileId, color?: Color, backgroundColor?: Color): void {
+        // Group members are recolored through the group, so its opacity still applies
+        const group = this.tileGroupsByTile.get(tileId);
+        if (group) {
+            group.setMemberColors(tileId, color, backgroundColor);
+            return;
+        }
 
-        // Group tiles by cell coordinates
-        const dirtyTilesByCell = new Map<string, Tile[]>();
-        
-        let dirtyTiles: Tile[];
-        if (this.useDirtyMask) {
-            dirtyTiles = Array.from(this.tileMap.values())
-                .filter(tile => this.dirtyMask.isDirty(tile.x, tile.y));
-        } else {
-            dirtyTiles = Array.from(this.tileMap.values());
+        const tile = this.tileMap.get(tileId);
+        if (tile && ((color && tile.color !== color) || (backgroundColor && tile.backgroundColor !== backgroundColor))) {
+            this.hasChanges = true;
+            tile.color = color ?? tile.color;
+            tile.backgroundColor = backgroundColor ?? tile.backgroundColor;
+
+            this.markDirty(tile);
+        }
+    }
+
+    private updateWorldCanvas(views: View[], presented: Viewport[]): void {
+        const groups = this.getLayerGroups();
+        // With the dirty mask off everything is redrawn, whether or not anything was marked
+        if (this.useDirtyMask && !groups.some(group => group[0].dirtyMask.hasDirtyTiles())) return;
+
+        if (!this.useDirtyMask) {
+            this.renderer.clear();
+            this.getAllViews().forEach(view => view.invalidate());
+        }
+
+        let dirtyTileCount = 0;
+        let culledTileCount = 0;
+        for (const group of groups) {
+            const dirtyMask = group[0].dirtyMask;
+            if (this.useDirtyMask && !dirtyMask.hasDirtyTiles()) continue;
+
+            // Layered renderers get each layer's own cells, the rest everything at once
+            const layerId = this.layered ? group[0].id : undefined;
+            const drawn = this.layered ? group : group.filter(layer => layer.options.visible);
+            const cells = this.useDirtyMask ?
+                dirtyMask.getDirtyCells() :
+                this.getAllCells(this.layered ? group[0] : null, views, presented);
+
+            // Erase the dirty rects up front, including cells whose last tile moved away
+            if (this.useDirtyMask) {
+                const rects = dirtyMask.getDirtyRects();
+                if (this.renderer.clearRect) {
+                    rects.forEach(rect => this.renderer.clearRect!(rect, layerId));
+                } else {
+                    cells.forEach(({x, y}) => this.renderer.clearCell(x, y, layerId));
+                }
+
+                if (group.some(layer => layer.options.visible)) {
+                    this.frameDirtyRects.push(...rects.map(rect =>
+                        this.toViewportRect(rect, group[0], views[0], presented[0])));
+                }
+            }
+
+            // Process each cell
+            for (const {x, y} of cells) {
+                // Already in z order, bottom to top
+                const tiles = this.stackByLayer(this.cellIndex.getTilesAt(x, y), drawn);
+                dirtyTileCount += tiles.length;
+
+                // Skip tiles hidden under an opaque tile, unless they reach outside the cell
+                const occluderIndex = this.findOccluderIndex(tiles);
+
+                // Render all tiles in the cell
+                tiles.forEach((tile, i) => {
+                    if (i < occluderIndex && this.isContainedInCell(tile)) {
+                        culledTileCount++;
+                        return;
+                    }
+                    this.renderer.drawTile(tile);
+                });
+            }
+
+            dirtyMask.clear();
         }
 
         // Update metrics for dirty tiles
-        this.metrics.lastDirtyTileCount = dirtyTiles.length;
+        this.metrics.lastDirtyTileCount = dirtyTileCount;
         this.metrics.averageDirtyTileCount = 
-            (this.metrics.averageDirtyTileCount * this.metrics.totalRenderCalls + dirtyTiles.length) /
+            (this.metrics.averageDirtyTileCount * this.metrics.totalRenderCalls + dirtyTileCount) /
+            (this.metrics.totalRenderCalls + 1);
+        this.metrics.lastCulledTileCount = culledTileCount;
+        this.metrics.averageCulledTileCount =
+            (this.metrics.averageCulledTileCount * this.metrics.totalRenderCalls + culledTileCount) /
             (this.metrics.totalRenderCalls + 1);
+    }
 
-        // Continue with grouping and rendering
-        dirtyTiles.forEach(tile => {
-            const key = `${tile.x},${tile.y}`;
-            if (!dirtyTilesByCell.has(key)) {
-                dirtyTilesByCell.set(key, []);
-            }
-            dirtyTilesByCell.get(key)!.push(tile);
-        });
+    // Layers that are redrawn together: one each when the renderer keeps them apart,
+    // otherwise all of them, sharing one dirty mask
+    private getLayerGroups(): Layer[][] {
+        return this.layered ? this.sortedLayers.map(layer => [layer]) : [this.sortedLayers];
+    }
 
-        // Process each cell
-        for (const [_, tiles] of dirtyTilesByCell) {
-            // Sort tiles by z-index
-            tiles.sort((a, b) => a.zIndex - b.zIndex);
-            
-            // Clear cell once
-            // BE AWARE -- this was the site of a very odd bug where the background color was not being cleared. 
-            // Before, it was a clearRect. But for some reason 
-            this.worldCtx.fillStyle = '#00000000';
-            this.worldCtx.fillRect(
-                tiles[0].x * this.cellWidthScaled,
-                tiles[0].y * this.cellHeightScaled,
-                this.cellWidthScaled,
-                this.cellHeightScaled
-            );
+    // Tiles on the given layers, bottom to top by layer and then by zIndex
+    private stackByLayer(tiles: Tile[], layers: Layer[]): Tile[] {
+        if (layers.length === this.sortedLayers.length && layers.length === 1) {
+            return tiles;
+        }
+        return layers.flatMap(layer => tiles.filter(tile => (tile.layer ?? DEFAULT_LAYER) === layer.id));
+    }
+
+    private markDirty(tile: Tile): void {
+        const layer = this.layers.get(tile.layer ?? DEFAULT_LAYER) ?? this.layers.get(DEFAULT_LAYER)!;
+        layer.dirtyMask.markDirty(tile);
+    }
 
-            // Render all tiles in the cell
-            tiles.forEach(tile => this.renderTile(tile));
+    // The part of a layer shown through a view presenting the given viewport
+    private getLayerViewport(layer: Layer, view: View, presented: Viewport): Viewport {
+        if (layer.options.fixed) {
+            const { width, height } = view.getViewport();
+            return { x: 0, y: 0, width, height };
         }
 
-        this.dirtyMask.clear();
+        // Parallax only scales the scroll, zoom and camera effects apply to every layer alike
+        const scroll = view.getViewport();
+        const lag = 1 - layer.options.parallax;
+        return {
+            x: presented.x - scroll.x * lag,
+            y: presented.y - scroll.y * lag,
+            width: presented.width,
+            height: presented.height
+        };
     }
 
-    private renderTile(tile: Tile): void {
-        const pixelX = tile.x * this.cellWidthScaled;
-        const pixelY = tile.y * this.cellHeightScaled;
-        
-        this.worldCtx.save();
-        
-        this.worldCtx.translate(pixelX, pixelY);
+    private getLayerPresentations(view: View, presented: Viewport, isMain: boolean): LayerPresentation[] {
+        // Fixed layers are overlays for the main view, they'd make no sense in a minimap
+        return this.sortedLayers
+            .filter(layer => layer.options.visible && (isMain || !layer.options.fixed))
+            .map(layer => ({
+                id: layer.id,
+                viewport: this.getLayerViewport(layer, view, presented),
+                opacity: layer.options.opacity,
+                blendMode: layer.options.blendMode
+            }));
+    }
 
-        // Set blend mode if not default
-        if (tile.blendMode !== BlendMode.SourceOver) {
-            this.worldCtx.globalCompositeOperation = tile.blendMode;
-        }
-        
-        if (!tile.noClip) {
-            this.worldCtx.beginPath();
-            this.worldCtx.rect(0, 0, this.cellWidthScaled, this.cellHeightScaled);
-            this.worldCtx.clip();
+    // A cell rectangle on a layer, as the main view cells covering the same bit of output
+    private toViewportRect(rect: Rect, layer: Layer, view: View, presented: Viewport): Rect {
+        if (!this.layered || (!layer.options.fixed && layer.options.parallax === 1)) {
+            return rect;
         }
-        
-        const cellWidth = this.cellWidthScaled;
-        const cellHeight = this.cellHeightScaled;
 
-        // Rotate from center if needed
-        if (tile.rotation) {
-            this.worldCtx.save();
-            this.worldCtx.translate(cellWidth/2, cellHeight/2);
-            this.worldCtx.rotate(tile.rotation);
-            this.worldCtx.translate(-cellWidth/2, -cellHeight/2);
-            this.worldCtx.restore();
+        const layerViewport = this.getLayerViewport(layer, view, presented);
+        const scaleX = presented.width / layerViewport.width;
+        const scaleY = presented.height / layerViewport.height;
+        const left = presented.x + (rect.x - layerViewport.x) * scaleX;
+        const top = presented.y + (rect.y - layerViewport.y) * scaleY;
+        const right = presented.x + (rect.x + rect.width - layerViewport.x) * scaleX;
+        const bottom = presented.y + (rect.y + rect.height - layerViewport.y) * scaleY;
+
+        // Each layer is rounded to device pixels on its own, so pad by a cell
+        const x = Math.floor(left) - 1;
+        const y = Math.floor(top) - 1;
+        return { x, y, width: Math.ceil(right) + 1 - x, height: Math.ceil(bottom) + 1 - y };
+    }
+
+    // Index of the topmost tile that fully covers its cell, or -1
+    private findOccluderIndex(tiles: Tile[]): number {
+        for (let i = tiles.length - 1; i > 0; i--) {
+            const tile = tiles[i];
+            if (this.isContainedInCell(tile) &&
+                tile.bgPercent >= 1 &&
+                tile.blendMode === BlendMode.SourceOver &&
+                !tile.offsetSymbolX && !tile.offsetSymbolY &&
+                tile.scaleSymbolX === 1 && tile.scaleSymbolY === 1 &&
+                !tile.rotation &&
+                isOpaqueColor(tile.backgroundColor)) {
+                return i;
+            }
         }
+        return -1;
+    }
 
-        // logger.debug(`Rendering tile ${tile.id} with background color ${tile.backgroundColor}`);
-        
-        if (tile.backgroundColor && tile.backgroundColor !== '#00000000') {
-            const bgPercent = tile.bgPercent ?? 1;
-            if (bgPercent > 0) {
-                this.worldCtx.fillStyle = tile.backgroundColor;
-
-                switch (tile.fillDirection) {
-                    case FillDirection.TOP:
-                        this.worldCtx.fillRect(
-                            0,
-                            0,
-                            cellWidth,
-                            cellHeight * bgPercent
-                        );
-                        break;
-                    case FillDirection.RIGHT:
-                        this.worldCtx.fillRect(
-                            0 + cellWidth * (1 - bgPercent),
-                            0,
-                            cellWidth * bgPercent,
-                            cellHeight
-                        );
-                        break;
-                    case FillDirection.BOTTOM:
-                        this.worldCtx.fillRect(
-                            0,
-                            0 + cellHeight * (1 - bgPercent),
-                            cellWidth,
-                            cellHeight * bgPercent
-                        );
-                        break;
-                    case FillDirection.LEFT:
-                        this.worldCtx.fillRect(
-                            0,
-                            0,
-                            cellWidth * bgPercent,
-                            cellHeight
-                        );
-                        break;
-                }                
+    private isContainedInCell(tile: Tile): boolean {
+        return !tile.noClip && Number.isInteger(tile.x) && Number.isInteger(tile.y);
+    }
+
+    // Every cell in the world, or just the ones in view when the world is unbounded.
+    // With a layer, the cells of that layer each view shows.
+    private getAllCells(layer: Layer | null, views: View[], presented: Viewport[]): {x: number, y: number}[] {
+        const rects = this.unbounded ?
+            views
+                .map((view, i) => layer ?
+                    (i === 0 || !layer.options.fixed ? this.getLayerViewport(layer, view, presented[i]) : null) :
+                    view.getVisibleViewport())
+                .filter((visible): visible is Viewport => visible !== null)
+                .map(visible => ({
+                    x: Math.floor(visible.x),
+                    y: Math.floor(visible.y),
+                    width: Math.ceil(visible.width) + 1,
+                    height: Math.ceil(visible.height) + 1
+                })) :
+            [{ x: 0, y: 0, width: this.worldWidth, height: this.worldHeight }];
+
+        // Views can overlap, so only take each cell once
+        const cells: Map<string, {x: number, y: number}> = new Map();
+        for (const rect of rects) {
+            for (let y = rect.y; y < rect.y + rect.height; y++) {
+                for (let x = rect.x; x < rect.x + rect.width; x++) {
+                    cells.set(`${x},${y}`, {x, y});
+                }
             }
         }
-        
-        if (tile.char && tile.color) {
-            const offsetX = (tile.offsetSymbolX || 0) * this.cellWidthScaled;
-            const offsetY = (tile.offsetSymbolY || 0) * this.cellHeightScaled;
-            
-            this.worldCtx.save();
-            
-            // Move to center of cell
-            this.worldCtx.translate(this.cellWidthScaled/2, this.cellHeightScaled * 0.55);
-            
-            // Apply rotation if any
-            if (tile.rotation) {
-                this.worldCtx.rotate(tile.rotation);
+        return Array.from(cells.values());
+    }
+
+    private isInWorld(x: number, y: number): boolean {
+        return this.unbounded ||
+            (x >= 0 && x < this.worldWidth && y >= 0 && y < this.worldHeight);
+    }
+
+    // Diff the regions overlapping any view against last frame and report changes
+    private updateVisibleRegions(): void {
+        const size = this.regionSize;
+        const visible: Map<string, RegionEvent> = new Map();
+        for (const view of this.getAllViews()) {
+            const rect = view.getVisibleViewport();
+            const startX = Math.floor(rect.x / size);
+            const startY = Math.floor(rect.y / size);
+            const endX = Math.ceil((rect.x + rect.width) / size);
+            const endY = Math.ceil((rect.y + rect.height) / size);
+
+            for (let regionY = startY; regionY < endY; regionY++) {
+                for (let regionX = startX; regionX < endX; regionX++) {
+                    const key = `${regionX},${regionY}`;
+                    visible.set(key, this.visibleRegions.get(key) ?? {
+                        type: 'enter',
+                        regionX,
+                        regionY,
+                        x: regionX * size,
+                        y: regionY * size,
+                        width: size,
+                        height: size
+                    });
+                }
             }
-            
-            // Apply scale
-            this.worldCtx.scale(tile.scaleSymbolX, tile.scaleSymbolY);
-            
-            // Apply offset
-            this.worldCtx.translate(offsetX, offsetY);
-            
-            this.worldCtx.fillStyle = tile.color;
-            this.worldCtx.fillText(tile.char, 0, 0);
-            
-            this.worldCtx.restore();
         }
 
-        this.worldCtx.restore();
+        const exited = Array.from(this.visibleRegions.entries())
+            .filter(([key]) => !visible.has(key))
+            .map(([, region]) => region);
+        const entered = Array.from(visible.entries())
+            .filter(([key]) => !this.visibleRegions.has(key))
+            .map(([, region]) => region);
+        this.visibleRegions = visible;
+
+        // Exits first, so hosts can unload before they load
+        exited.forEach(region => this.emitRegionEvent({ ...region, type: 'exit' }));
+        entered.forEach(region => this.emitRegionEvent({ ...region, type: 'enter' }));
+    }
+
+    private emitRegionEvent(event: RegionEvent): void {
+        this.regionCallbacks.forEach(callback => callback(event, this));
     }
 
     private renderFrame(timestamp: number): void {
+        this.render(timestamp);
+
+        if (this.isRunning) {
+            requestAnimationFrame(this.boundRenderFrame);
+        }
+    }
+
+    /**
+     * Run a single frame: advance animations, redraw dirty cells and present the viewport.
+     * Called by the requestAnimationFrame loop, or directly when autoStart is false.
+     */
+    public render(timestamp: number = performance.now()): void {
         const animationStart = performance.now();
+
+        this.lastFrameTime = timestamp;
+        // Timelines start, pause and seek their animations before those are stepped
+        this.timelines.forEach(timeline => timeline.update(timestamp));
         
         const hasActiveAnimations = 
             this.symbolAnimations.size > 0 || 
             this.colorAnimations.size > 0 || 
-            this.valueAnimations.size > 0;
+            this.valueAnimations.size > 0 ||
+            this.keyframeAnimations.size > 0 ||
+            this.motions.size > 0 ||
+            this.groupAnimations.size > 0;
 
         if (hasActiveAnimations) {
+            // Paused animations that were seeked get stepped once, as of when they were paused
+            const refreshed = Array.from(this.animationStates.values()).filter(state => state.refresh);
+            refreshed.forEach(state => this.shiftAnimations(state, timestamp - state.pausedAt!, true));
+
+            this.updatingAnimations = true;
             this.updateSymbolAnimations(timestamp);
             this.updateColorAnimations(timestamp);
             this.updateValueAnimations(timestamp);
+            this.updateKeyframeAnimations(timestamp);
+            this.updateMotions(timestamp);
+            // After tile animations, so groups have the last word on where members go
+            this.updateGroupAnimations(timestamp);
+            this.updatingAnimations = false;
             this.hasChanges = true;
+
+            refreshed.forEach(state => {
+                this.shiftAnimations(state, state.pausedAt! - timestamp, false);
+                state.refresh = false;
+            });
+            this.flushAnimationEvents();
         }
         
         const animationEnd = performance.now();
@@ -515,18 +701,30 @@ export class Display {
         // Call frame callbacks with 'this'
         this.frameCallbacks.forEach(callback => callback(this));
 
+        const views = this.getAllViews();
+        views.forEach(view => view.update(timestamp, id => this.tileMap.get(id)));
+
+        this.updateVisibleRegions();
+
+        const presented = views.map(view => view.getPresentedViewport(timestamp));
+
+        presented.forEach((viewport, i) => this.renderer.beginFrame?.(
+            viewport,
+            this.layered ? this.getLayerPresentations(views[i], viewport, i === 0) : undefined
+        ));
+
         if (this.hasChanges) {
-            this.updateWorldCanvas();
+            this.updateWorldCanvas(views, presented);
             this.hasChanges = false;
         }
         
-        this.updateDisplayCanvas();
+        this.updateDisplayCanvas(views, presented);
 
         const renderEnd = performance.now();
 
         this.metrics.symbolAnimationCount = this.symbolAnimations.size;
         this.metrics.colorAnimationCount = this.colorAnimations.size;
-        this.metrics.valueAnimationCount = this.valueAnimations.size;
+        this.metrics.valueAnimationCount = this.valueAnimations.size + this.keyframeAnimations.size + this.motions.size + this.groupAnimations.size;
         
         this.metrics.lastAnimationUpdateTime = animationEnd - animationStart;
         this.metrics.lastWorldUpdateTime = renderEnd - renderStart;
@@ -546,12 +744,6 @@ export class Display {
         }
 
         this.updateMetrics(renderStart);
-
-       
-
-        if (this.isRunning) {
-            requestAnimationFrame(this.boundRenderFrame);
-        }
     }
 
     private startRenderLoop() {
@@ -561,18 +753,22 @@ export class Display {
         }
     }
 
-    private updateDisplayCanvas() {
-        const srcX = this.viewport.x * this.cellWidthScaled;
-        const srcY = this.viewport.y * this.cellHeightScaled;
-        const srcWidth = this.viewport.width * this.cellWidthScaled;
-        const srcHeight = this.viewport.height * this.cellHeightScaled;
+    private updateDisplayCanvas(views: View[], presented: Viewport[]) {
+        // Views drawn over each other can't just patch their dirty cells, a later
+        // view would be painted over by an earlier one's patches
+        const patchable = views.length === 1;
+
+        views.forEach((view, i) => {
+            const moved = view.markPresented(presented[i]);
+            this.renderer.present(
+                presented[i],
+                moved || !patchable ? undefined : this.frameDirtyRects,
+                view.screen,
+                this.layered ? this.getLayerPresentations(view, presented[i], i === 0) : undefined
+            );
+        });
 
-        this.displayCtx.clearRect(0, 0, this.displayCanvas.width, this.displayCanvas.height);
-        this.displayCtx.drawImage(
-            this.worldCanvas,
-            srcX, srcY, srcWidth, srcHeight,
-            0, 0, srcWidth, srcHeight
-        );
+        this.frameDirtyRects = [];
     }
 
     private updateMetrics(renderStart: number) {
@@ -613,7 +809,9 @@ Active Animations: ${this.metrics.symbolAnimationCount + this.metrics.colorAnima
 ├─ Symbol: ${this.metrics.symbolAnimationCount}
 ├─ Color: ${this.metrics.colorAnimationCount}
 └─ Value: ${this.metrics.valueAnimationCount}
-Dirty Tiles: ${this.metrics.lastDirtyTileCount} (avg: ${this.metrics.averageDirtyTileCount.toFixed(1)})`;
+Dirty Tiles: ${this.metrics.lastDirtyTileCount} (avg: ${this.metrics.averageDirtyTileCount.toFixed(1)})
+└─ Culled: ${this.metrics.lastCulledTileCount} (avg: ${this.metrics.averageCulledTileCount.toFixed(1)})
+${this.renderer.getDebugString?.() ?? ''}`;
     }
 
     public clear() {
@@ -621,15 +819,33 @@ Dirty Tiles: ${this.metrics.lastDirtyTileCount} (avg: ${this.metrics.averageDirt
         logger.info('Clearing display');
         
         this.tileMap.clear();
+        this.cellIndex.clear();
         this.symbolAnimations.clear();
         this.colorAnimations.clear();
         this.valueAnimations.clear();
-
-        this.displayCtx.clearRect(0, 0, this.displayCanvas.width, this.displayCanvas.height);
-        this.worldCtx.clearRect(0, 0, this.worldCanvas.width, this.worldCanvas.height);
+        this.keyframeAnimations.clear();
+        this.motions.clear();
+        this.tileGroups.clear();
+        this.tileGroupsByTile.clear();
+        this.groupAnimations.clear();
+        this.timelines.clear();
+        this.animationStates.forEach(state => state.ended = 'cancelled');
+        this.flushAnimationEvents();
+
+        this.renderer.clear();
+        this.getAllViews().forEach(view => view.invalidate());
     }
 
     public setBackground(symbol: string, fgColor: Color, bgColor: Color): void {
+        if (this.unbounded) {
+            logger.warn('setBackground is not supported in an unbounded world, fill regions as they enter view instead');
+            return;
+        }
+
+        if (!this.validateColor(fgColor, 'for the background') || !this.validateColor(bgColor, 'for the background')) {
+            return;
+        }
+
         const existingBackgroundTiles = Array.from(this.tileMap.values())
             .filter(tile => tile.zIndex === -1)
             .map(tile => tile.id);
@@ -657,12 +873,420 @@ Dirty Tiles: ${this.metrics.lastDirtyTileCount} (avg: ${this.metrics.averageDirt
         return this.worldHeight;
     }
 
+    public isUnbounded(): boolean {
+        return this.unbounded;
+    }
+
     public getViewportWidth(): number {
-        return this.viewport.width;
+        return this.mainView.getViewport().width;
+    }
+
+    public getViewportHeight(): number {
+        return this.mainView.getViewport().height;
+    }
+
+    public getViewport(): Readonly<Viewport> {
+        return this.mainView.getViewport();
+    }
+
+    public getZoom(): number {
+        return this.mainView.getZoom();
+    }
+
+    // Zoom the main view, see View.setZoom
+    public setZoom(zoom: number, options: ZoomOptions = {}): void {
+        this.mainView.setZoom(zoom, options);
+    }
+
+    public getCamera(): Camera {
+        return this.mainView.getCamera();
+    }
+
+    /**
+     * Add trauma-based screen shake to the main view. Trauma stacks up to 1 and
+     * decays over time. Like kick and zoomPunch, this only offsets how the viewport
+     * is presented; tiles and getViewport() are unaffected.
+     */
+    public shake(options: ShakeOptions = {}): void {
+        this.mainView.shake(options);
+    }
+
+    public kick(x: number, y: number, options: KickOptions = {}): void {
+        this.mainView.kick(x, y, options);
+    }
+
+    public zoomPunch(amount: number, options: ZoomPunchOptions = {}): void {
+        this.mainView.zoomPunch(amount, options);
+    }
+
+    public clearCameraEffects(): void {
+        this.mainView.clearCameraEffects();
+    }
+
+    /**
+     * Present another view of the same world on part of the output, e.g. a
+     * picture-in-picture map. The screen rectangle is in CSS pixels, and the view
+     * shows as many cells as fit in it at its zoom. Extra views are drawn over the
+     * main view in the order they were added, and have their own camera and zoom.
+     */
+    public addView(id: string, options: Omit<ViewOptions, 'width' | 'height'> & { screen: Rect }): View | undefined {
+        if (this.views.has(id)) {
+            logger.warn(`Attempted to add duplicate view: ${id}`);
+            return undefined;
+        }
+
+        const view = new View({
+            ...options,
+            width: options.screen.width / this.cellWidth,
+            height: options.screen.height / this.cellHeight
+        }, this.unbounded ? null : { width: this.worldWidth, height: this.worldHeight });
+        this.views.set(id, view);
+        this.mainView.invalidate();
+        this.hasChanges = true;
+        return view;
+    }
+
+    public removeView(id: string): void {
+        if (!this.views.delete(id)) {
+            logger.warn(`Attempted to remove non-existent view: ${id}`);
+            return;
+        }
+
+        // The main view has to be redrawn where the removed view was
+        this.mainView.invalidate();
+        this.hasChanges = true;
+    }
+
+    public getView(id: string): View | undefined {
+        return this.views.get(id);
+    }
+
+    /**
+     * Add a named layer, e.g. terrain, actors, effects or UI. Each layer has its own
+     * dirty mask and buffer, so a busy effects layer doesn't redraw static terrain
+     * under it, and is composited with its own opacity, blend mode and parallax.
+     * Fixed layers are positioned in viewport cells and don't scroll, for UI. Put
+     * tiles on a layer with the layer option of createTile, or setTileLayer.
+     */
+    public addLayer(id: string, options: LayerOptions = {}): void {
+        if (this.layers.has(id)) {
+            logger.warn(`Attempted to add duplicate layer: ${id}`);
+            return;
+        }
+
+        const defaultLayer = this.layers.get(DEFAULT_LAYER);
+        this.layers.set(id, {
+            id,
+            options: {
+                order: 0,
+                visible: true,
+                opacity: 1,
+                parallax: 1,
+                blendMode: BlendMode.SourceOver,
+                fixed: false,
+                ...options
+            },
+            dirtyMask: this.layered || !defaultLayer ?
+                new DirtyMask(this.worldWidth, this.worldHeight, this.unbounded) :
+                defaultLayer.dirtyMask
+        });
+        this.renderer.addLayer?.(id);
+        this.sortLayers();
+    }
+
+    // Removes the layer's tiles along with it
+    public removeLayer(id: string): void {
+        if (id === DEFAULT_LAYER) {
+            logger.warn('Attempted to remove the default layer');
+            return;
+        }
+        if (!this.layers.has(id)) {
+            logger.warn(`Attempted to remove non-existent layer: ${id}`);
+            return;
+        }
+
+        this.getTiles()
+            .filter(tile => tile.layer === id)
+            .forEach(tile => this.removeTile(tile.id));
+        this.layers.delete(id);
+        this.renderer.removeLayer?.(id);
+        this.sortLayers();
     }
 
-    public getViewportHeight(): number {
-        return this.viewport.height;
+    // Layer ids, bottom to top
+    public getLayers(): string[] {
+        return this.sortedLayers.map(layer => layer.id);
+    }
+
+    public getLayerOptions(id: string): Readonly<Required<LayerOptions>> | undefined {
+        const layer = this.layers.get(id);
+        return layer ? { ...layer.options } : undefined;
+    }
+
+    public setLayerOptions(id: string, options: LayerOptions): void {
+        const layer = this.layers.get(id);
+        if (!layer) {
+            logger.warn(`Attempted to set options of non-existent layer: ${id}`);
+            return;
+        }
+
+        layer.options = { ...layer.options, ...options };
+        this.sortLayers();
+
+        // Without a buffer of its own the layer's cells have to be redrawn
+        if (!this.layered) {
+            this.getTiles()
+                .filter(tile => tile.layer === id)
+                .forEach(tile => this.markDirty(tile));
+            this.hasChanges = true;
+        }
+    }
+
+    public setTileLayer(tileId: TileId, layer: string): void {
+        const tile = this.tileMap.get(tileId);
+        if (!tile) {
+            logger.warn(`Attempted to set layer of non-existent tile: ${tileId}`);
+            return;
+        }
+        if (!this.layers.has(layer)) {
+            logger.warn(`Attempted to move tile to non-existent layer: ${layer}`);
+            return;
+        }
+
+        if (tile.layer !== layer) {
+            this.hasChanges = true;
+            this.markDirty(tile);
+            tile.layer = layer;
+            this.markDirty(tile);
+        }
+    }
+
+    private sortLayers(): void {
+        // Stable, so layers with the same order stay in the order they were added
+        this.sortedLayers = Array.from(this.layers.values())
+            .sort((a, b) => a.options.order - b.options.order);
+        this.getAllViews().forEach(view => view.invalidate());
+    }
+
+    /**
+     * Palettes name colors by role, e.g. { wall: '#666666FF', danger: 'red' }, for
+     * tiles and animations to use as '$wall' and text markup as {wall}. Switching the
+     * active palette recolors all of them, e.g. for a high-contrast or colorblind
+     * friendly theme. Roles a palette leaves out come from the default palette.
+     */
+    public addPalette(name: string, colors: Palette): void {
+        if (this.palettes.has(name)) {
+            logger.warn(`Attempted to add duplicate palette: ${name}`);
+            return;
+        }
+
+        this.palettes.set(name, {});
+        this.setPaletteColors(name, colors);
+    }
+
+    public removePalette(name: string): void {
+        if (name === DEFAULT_PALETTE || name === this.activePalette) {
+            logger.warn(`Attempted to remove the default or active palette: ${name}`);
+            return;
+        }
+        if (!this.palettes.delete(name)) {
+            logger.warn(`Attempted to remove non-existent palette: ${name}`);
+        }
+    }
+
+    public getPalettes(): string[] {
+        return Array.from(this.palettes.keys());
+    }
+
+    public getPaletteColors(name: string): Readonly<Palette> | undefined {
+        const palette = this.palettes.get(name);
+        return palette ? { ...palette } : undefined;
+    }
+
+    // Add or change roles. Tiles and animations following them pick up the change if the palette is in use
+    public setPaletteColors(name: string, colors: Palette): void {
+        const palette = this.palettes.get(name);
+        if (!palette) {
+            logger.warn(`Attempted to set colors of non-existent palette: ${name}`);
+            return;
+        }
+
+        Object.entries(colors).forEach(([role, color]) => {
+            const normalized = normalizeColor(color);
+            if (!normalized) {
+                logger.warn(`Ignoring invalid color for role ${role} of palette ${name}: ${color}`);
+                return;
+            }
+            palette[role] = normalized;
+        });
+        if (name === this.activePalette || name === DEFAULT_PALETTE) {
+            this.applyPalette();
+        }
+    }
+
+    public setActivePalette(name: string): void {
+        if (!this.palettes.has(name)) {
+            logger.warn(`Attempted to activate non-existent palette: ${name}`);
+            return;
+        }
+
+        this.activePalette = name;
+        this.applyPalette();
+    }
+
+    public getActivePalette(): string {
+        return this.activePalette;
+    }
+
+    // Recolor everything following a role. Running animations look their roles up as they go
+    private applyPalette(): void {
+        this.activePaletteColors = { ...this.palettes.get(DEFAULT_PALETTE), ...this.palettes.get(this.activePalette) };
+        this.textParser.setColorMap(this.activePaletteColors);
+
+        this.tileMap.forEach(tile => {
+            if (tile.colorRole === undefined && tile.backgroundColorRole === undefined) return;
+            this.recolorTile(
+                tile.id,
+                tile.colorRole !== undefined ? this.activePaletteColors[tile.colorRole] : undefined,
+                tile.backgroundColorRole !== undefined ? this.activePaletteColors[tile.backgroundColorRole] : undefined
+            );
+        });
+    }
+
+    public getMainView(): View {
+        return this.mainView;
+    }
+
+    private getAllViews(): View[] {
+        return [this.mainView, ...this.views.values()];
+    }
+
+    /**
+     * Map a point in client coordinates (as in MouseEvent.clientX/Y) to the world,
+     * through whichever view is on top at that point. Takes the element's CSS size
+     * into account, so a canvas stretched by CSS or backed by a devicePixelRatio-sized
+     * buffer still maps correctly, and uses the viewport as last presented, so shake
+     * and zoom line up with what's on screen. Returns null outside the display.
+     */
+    public screenToWorld(clientX: number, clientY: number): PointerHit | null {
+        const output = this.getOutputRect();
+        const localX = (clientX - output.left) * output.scaleX;
+        const localY = (clientY - output.top) * output.scaleY;
+        if (localX < 0 || localY < 0 || localX >= output.width || localY >= output.height) {
+            return null;
+        }
+
+        // Extra views sit on top of the main one, the last added on top of all
+        const candidates: [string | undefined, View][] = [
+            ...Array.from(this.views.entries()).reverse(),
+            [undefined, this.mainView]
+        ];
+        for (const [viewId, view] of candidates) {
+            const screen = view.screen ?? { x: 0, y: 0, width: output.width, height: output.height };
+            if (localX < screen.x || localY < screen.y ||
+                localX >= screen.x + screen.width || localY >= screen.y + screen.height) {
+                continue;
+            }
+
+            const presented = view.getLastPresented() ?? view.getVisibleViewport();
+            return {
+                worldX: presented.x + (localX - screen.x) / screen.width * presented.width,
+                worldY: presented.y + (localY - screen.y) / screen.height * presented.height,
+                viewId
+            };
+        }
+        return null;
+    }
+
+    /**
+     * Client coordinates of a world point as shown in a view (the main view by default).
+     */
+    public worldToScreen(x: number, y: number, viewId?: string): { x: number, y: number } | null {
+        const view = viewId === undefined ? this.mainView : this.views.get(viewId);
+        if (!view) {
+            logger.warn(`Attempted to map to non-existent view: ${viewId}`);
+            return null;
+        }
+
+        const output = this.getOutputRect();
+        const screen = view.screen ?? { x: 0, y: 0, width: output.width, height: output.height };
+        const presented = view.getLastPresented() ?? view.getVisibleViewport();
+        const localX = screen.x + (x - presented.x) / presented.width * screen.width;
+        const localY = screen.y + (y - presented.y) / presented.height * screen.height;
+        return {
+            x: output.left + localX / output.scaleX,
+            y: output.top + localY / output.scaleY
+        };
+    }
+
+    /**
+     * Get told about pointer activity over world cells: hover enter/leave, click and
+     * dragstart/drag/dragend, with the tiles stacked in the cell. Listening starts
+     * with the first callback and needs a renderer with a page element.
+     */
+    public addPointerCallback(callback: (event: PointerCellEvent, display: Display) => void): void {
+        this.pointerCallbacks.add(callback);
+        if (this.pointerInput) return;
+
+        const element = this.renderer.getElement?.();
+        if (!element) {
+            logger.warn('Pointer callbacks need a renderer with a page element');
+            return;
+        }
+
+        this.pointerInput = new PointerInput(
+            element,
+            (clientX, clientY) => this.screenToWorld(clientX, clientY),
+            (type, hit, event, dragStart) => {
+                const x = Math.floor(hit.worldX);
+                const y = Math.floor(hit.worldY);
+                const cellEvent: PointerCellEvent = {
+                    type,
+                    x,
+                    y,
+                    worldX: hit.worldX,
+                    worldY: hit.worldY,
+                    tiles: this.getTilesAt(x, y),
+                    viewId: hit.viewId,
+                    button: event.button,
+                    dragStart,
+                    originalEvent: event
+                };
+                this.pointerCallbacks.forEach(cb => cb(cellEvent, this));
+            }
+        );
+        this.pointerInput.attach();
+    }
+
+    public removePointerCallback(callback: (event: PointerCellEvent, display: Display) => void): void {
+        this.pointerCallbacks.delete(callback);
+        if (this.pointerCallbacks.size === 0 && this.pointerInput) {
+            this.pointerInput.detach();
+            this.pointerInput = null;
+        }
+    }
+
+    // Where the output is on the page, and how to get from client to output CSS pixels
+    private getOutputRect(): { left: number, top: number, width: number, height: number, scaleX: number, scaleY: number } {
+        const viewport = this.mainView.getViewport();
+        const width = viewport.width * this.cellWidth;
+        const height = viewport.height * this.cellHeight;
+
+        const element = this.renderer.getElement?.();
+        if (!element) {
+            // Nothing on the page, treat client coordinates as output pixels
+            return { left: 0, top: 0, width, height, scaleX: 1, scaleY: 1 };
+        }
+
+        const bounds = element.getBoundingClientRect();
+        return {
+            left: bounds.left,
+            top: bounds.top,
+            width,
+            height,
+            scaleX: bounds.width > 0 ? width / bounds.width : 1,
+            scaleY: bounds.height > 0 ? height / bounds.height : 1
+        };
     }
 
     private generateTileId(): TileId {
@@ -675,6 +1299,23 @@ Dirty Tiles: ${this.metrics.lastDirtyTileCount} (avg: ${this.metrics.averageDirt
         return this.tileMap.get(tileId);
     }
 
+    public getTiles(): Tile[] {
+        return Array.from(this.tileMap.values());
+    }
+
+    /**
+     * Tiles whose position falls in cell (x, y), ordered bottom to top by layer and then
+     * by zIndex. Tiles at fractional positions count towards the cell their top-left
+     * corner is in.
+     */
+    public getTilesAt(x: number, y: number): Tile[] {
+        return this.stackByLayer(this.cellIndex.getTilesAt(x, y), this.sortedLayers);
+    }
+
+    public getTilesInRect(x: number, y: number, width: number, height: number): Tile[] {
+        return this.cellIndex.getTilesInRect(x, y, width, height);
+    }
+
     public createString(
         x: number,
         y: number,
@@ -691,7 +1332,8 @@ Dirty Tiles: ${this.metrics.lastDirtyTileCount} (avg: ${this.metrics.averageDirt
                     currentX++,
                     y,
                     char,
-                    segment.color,
+                    // Aliases are palette roles, so markup follows palette changes too
+                    segment.alias !== undefined ? PALETTE_ROLE_PREFIX + segment.alias : segment.color,
                     "#000000FF",  // Default background
                     zIndex
                 );
@@ -767,7 +1409,7 @@ Dirty Tiles: ${this.metrics.lastDirtyTileCount} (avg: ${this.metrics.averageDirt
                         currentX + wordTileIds.length,
                         currentY,
                         char,
-                        segment.color,
+                        segment.alias !== undefined ? PALETTE_ROLE_PREFIX + segment.alias : segment.color,
                         textBackgroundColor,
                         zIndex
                     );
@@ -803,14 +1445,13 @@ Dirty Tiles: ${this.metrics.lastDirtyTileCount} (avg: ${this.metrics.averageDirt
     }
 
     public emptyCell(x: number, y: number): void {
-        if (x < 0 || x >= this.worldWidth || y < 0 || y >= this.worldHeight) {
+        if (!this.isInWorld(x, y)) {
             logger.warn(`Attempted to empty cell outside world bounds: (${x},${y})`);
             return;
         }
 
         // Find and remove all tiles at the specified position
-        const tilesToRemove = Array.from(this.tileMap.values())
-            .filter(tile => tile.x === x && tile.y === y)
+        const tilesToRemove = this.cellIndex.getTilesAt(x, y)
             .map(tile => tile.id);
         
         tilesToRemove.forEach(id => this.removeTile(id));
@@ -824,12 +1465,13 @@ Dirty Tiles: ${this.metrics.lastDirtyTileCount} (avg: ${this.metrics.averageDirt
         loop: boolean = true,
         reverse: boolean = false, 
         startTime?: number
-    ): void {
+    ): AnimationHandle {
         if (!this.tileMap.has(tileId)) {
             logger.warn(`Attempted to add animation to non-existent tile: ${tileId}`);
-            return;
+            return this.createFinishedAnimationHandle();
         }
         
+        const handle = this.createAnimationHandle('symbol', tileId);
         this.symbolAnimations.set(tileId, {
             symbols,
             startTime: startTime ?? performance.now(),
@@ -839,6 +1481,7 @@ Dirty Tiles: ${this.metrics.lastDirtyTileCount} (avg: ${this.metrics.averageDirt
             offset,
             running: true
         });
+        return handle;
     }
 
     private updateSymbolAnimations(timestamp: number): void {
@@ -847,12 +1490,14 @@ Dirty Tiles: ${this.metrics.lastDirtyTileCount} (avg: ${this.metrics.averageDirt
             if (!tile || !animation.running) {
                 if (!tile) {
                     this.symbolAnimations.delete(tileId);
+                    this.finishAnimation('symbol', tileId, true);
                 }
                 continue;
             }
 
             const elapsed = (timestamp - animation.startTime) / 1000;
             let progress = (elapsed / animation.duration) + (animation.offset || 0);
+            this.trackAnimationStep('symbol', tileId, 'symbol', animation.loop ? Math.floor(progress) : 0);
             
             if (animation.loop) {
                 if (animation.reverse) {
@@ -873,9 +1518,10 @@ Dirty Tiles: ${this.metrics.lastDirtyTileCount} (avg: ${this.metrics.averageDirt
             // Remove animation if complete and not looping
             if (!animation.loop && progress >= 1) {
                 this.symbolAnimations.delete(tileId);
+                this.finishAnimation('symbol', tileId, false);
             }
 
-            this.dirtyMask.markDirty(tile);
+            this.markDirty(tile);
         }
     }
 
@@ -886,6 +1532,7 @@ Dirty Tiles: ${this.metrics.lastDirtyTileCount} (avg: ${this.metrics.averageDirt
             const tile = this.tileMap.get(tileId);
             if (!tile) {
                 this.colorAnimations.delete(tileId);
+                this.finishAnimation('color', tileId, true);
                 continue;
             }
                         
@@ -894,6 +1541,7 @@ Dirty Tiles: ${this.metrics.lastDirtyTileCount} (avg: ${this.metrics.averageDirt
 
                 const elapsed = (timestamp - animation.startTime) / 1000;
                 let progress = (elapsed / animation.duration) + animation.offset;
+                this.trackAnimationStep('color', tileId, property, animation.loop ? Math.floor(progress) : 0);
                 
                 if (animation.loop) {
                     if (animation.reverse) {
@@ -908,8 +1556,20 @@ Dirty Tiles: ${this.metrics.lastDirtyTileCount} (avg: ${this.metrics.averageDirt
                     progress = Math.min(progress, 1);
                 }
                 
+                // Endpoints given as palette roles are looked up every frame, so they follow palette changes
                 const easedProgress = animation.easing ? animation.easing(progress) : progress;
-                const interpolatedColor = interpolateColor(animation.startColor, animation.endColor, easedProgress);
+                const interpolatedColor = animation.stops ?
+                    sampleGradient(
+                        animation.stops.map(stop => ({ offset: stop.offset, color: this.getPaletteColor(stop.color) })),
+                        easedProgress,
+                        animation.space
+                    ) :
+                    interpolateColor(
+                        this.getPaletteColor(animation.startColor),
+                        this.getPaletteColor(animation.endColor),
+                        easedProgress,
+                        animation.space
+                    );
                 tile[property] = interpolatedColor;
 
                 // Check if animation is complete
@@ -918,6 +1578,7 @@ Dirty Tiles: ${this.metrics.lastDirtyTileCount} (avg: ${this.metrics.averageDirt
                         animation.next.startTime = timestamp;
                         return animation.next;
                     }
+                    tile[property === 'color' ? 'colorRole' : 'backgroundColorRole'] = this.getColorRole(animation.endColor);
                     return undefined;
                 }
                 
@@ -930,26 +1591,48 @@ Dirty Tiles: ${this.metrics.lastDirtyTileCount} (avg: ${this.metrics.averageDirt
             // Clean up if no animations remain
             if (!animations.fg && !animations.bg) {
                 this.colorAnimations.delete(tileId);
+                this.finishAnimation('color', tileId, false);
             }
 
-            this.dirtyMask.markDirty(tile);
+            this.markDirty(tile);
         }
     }
 
-    public addColorAnimation(tileId: TileId, options: TileColorAnimationOptions): void {
+    public addColorAnimation(tileId: TileId, options: TileColorAnimationOptions): AnimationHandle {
         const animations: {fg?: ColorAnimation, bg?: ColorAnimation} = {};
         const effectiveStartTime = options.startTime ?? performance.now();
 
+        // Every color along every chain has to be readable before anything starts
+        const chainColors = (transition: ColorAnimationOptions): Color[] => [
+            transition.start,
+            transition.end,
+            ...(transition.stops ?? []).map(stop => stop.color),
+            ...(transition.next ? chainColors(transition.next) : [])
+        ];
+        const colors = [options.fg, options.bg].flatMap(transition => transition ? chainColors(transition) : []);
+        if (!colors.every(color => this.validateColor(color, `in color animation for tile ${tileId}`))) {
+            return this.createFinishedAnimationHandle();
+        }
+        const normalized = (color: Color): Color => this.getColorRole(color) !== undefined ? color : normalizeColor(color)!;
+
         const createColorAnimationChain = (transition: ColorAnimationOptions, startTime: number): ColorAnimation => {
             const animation: ColorAnimation = {
-                startColor: transition.start,
-                endColor: transition.end,
+                startColor: normalized(transition.start),
+                endColor: normalized(transition.end),
                 duration: transition.duration,
                 startTime: startTime,
                 reverse: transition.reverse || false,
                 loop: transition.loop || false,
                 offset: transition.offset || 0,
-                easing: transition.easing,
+                easing: resolveEasing(transition.easing),
+                space: transition.space ?? 'srgb',
+                stops: transition.stops ? [
+                    { offset: 0, color: normalized(transition.start) },
+                    ...transition.stops
+                        .map(stop => ({ offset: stop.offset, color: normalized(stop.color) }))
+                        .sort((a, b) => a.offset - b.offset),
+                    { offset: 1, color: normalized(transition.end) }
+                ] : undefined,
                 next: transition.next ? createColorAnimationChain(transition.next, performance.now()) : undefined,
                 running: true
             };
@@ -964,10 +1647,12 @@ Dirty Tiles: ${this.metrics.lastDirtyTileCount} (avg: ${this.metrics.averageDirt
             animations.bg = createColorAnimationChain(options.bg, effectiveStartTime);
         }
 
+        const handle = this.createAnimationHandle('color', tileId, animations);
         this.colorAnimations.set(tileId, animations);
+        return handle;
     }
 
-    public addValueAnimation(tileId: TileId, options: TileValueAnimationsOptions): void {
+    public addValueAnimation(tileId: TileId, options: TileValueAnimationsOptions): AnimationHandle {
         const effectiveStartTime = options.startTime ?? performance.now();
         
         // Properly type the animations object
@@ -980,22 +1665,11 @@ Dirty Tiles: ${this.metrics.lastDirtyTileCount} (avg: ${this.metrics.averageDirt
             scaleSymbolY?: ValueAnimation;
             x?: ValueAnimation;
             y?: ValueAnimation;
+            zIndex?: ValueAnimation;
         } = {};
         
-        const createValueAnimation = (config: ValueAnimationOption): ValueAnimation => {
-            return {
-                startValue: config.start,
-                endValue: config.end,
-                duration: config.duration,
-                startTime: effectiveStartTime,
-                reverse: config.reverse || false,
-                offset: config.offset || 0,
-                easing: config.easing || Easing.linear,
-                loop: config.loop ?? true,
-                next: config.next ? createValueAnimation(config.next) : undefined,
-                running: true  // Set initial state to running
-            };
-        };
+        const createValueAnimation = (config: ValueAnimationOption): ValueAnimation =>
+            this.createValueAnimation(config, effectiveStartTime);
 
         // Add animations with proper typing
         if (options.rotation) {
@@ -1022,8 +1696,13 @@ Dirty Tiles: ${this.metrics.lastDirtyTileCount} (avg: ${this.metrics.averageDirt
         if (options.y) {
             animations.y = createValueAnimation(options.y);
         }
+        if (options.zIndex) {
+            animations.zIndex = createValueAnimation(options.zIndex);
+        }
 
+        const handle = this.createAnimationHandle('value', tileId, animations);
         this.valueAnimations.set(tileId, animations);
+        return handle;
     }
 
     private updateValueAnimations(timestamp: number): void {
@@ -1031,45 +1710,24 @@ Dirty Tiles: ${this.metrics.lastDirtyTileCount} (avg: ${this.metrics.averageDirt
             const tile = this.tileMap.get(tileId);
             if (!tile) {
                 this.valueAnimations.delete(tileId);
+                this.finishAnimation('value', tileId, true);
                 continue;
             }
 
+            const previousX = tile.x;
+            const previousY = tile.y;
+            const previousZIndex = tile.zIndex;
+
             const updateAnimation = (
                 animation: ValueAnimation | undefined, 
-                property: 'x' | 'y' | 'scaleSymbolX' | 'scaleSymbolY' | 'offsetSymbolX' | 'offsetSymbolY' | 'bgPercent' | 'rotation'
+                property: 'x' | 'y' | 'scaleSymbolX' | 'scaleSymbolY' | 'offsetSymbolX' | 'offsetSymbolY' | 'bgPercent' | 'rotation' | 'zIndex'
             ) => {
                 if (!animation || !animation.running) return animation;  // Skip if not running
 
-                const elapsed = (timestamp - animation.startTime) / 1000;
-                let progress = (elapsed / animation.duration) + animation.offset;
-
-                if (animation.loop) {
-                    if (animation.reverse) {
-                        progress = progress % 2;
-                        if (progress > 1) {
-                            progress = 2 - progress;
-                        }
-                    } else {
-                        progress = progress % 1;
-                    }
-                } else {
-                    progress = Math.min(progress, 1);
-                }
-
-                const easedProgress = animation.easing(progress);
-                tile[property] = animation.startValue + 
-                    (animation.endValue - animation.startValue) * easedProgress;
-                
-                // Check if animation is complete
-                if (!animation.loop && progress >= 1) {
-                    if (animation.next) {
-                        animation.next.startTime = timestamp;
-                        return animation.next;
-                    }
-                    return undefined;
-                }
-                
-                return animation;
+                const step = this.stepValueAnimation(animation, timestamp);
+                this.trackAnimationStep('value', tileId, property, step.cycle);
+                tile[property] = step.value;
+                return step.animation;
             };
 
             // Update each animation type including rotation
@@ -1081,24 +1739,672 @@ Dirty Tiles: ${this.metrics.lastDirtyTileCount} (avg: ${this.metrics.averageDirt
             animations.offsetSymbolX = updateAnimation(animations.offsetSymbolX, 'offsetSymbolX');
             animations.offsetSymbolY = updateAnimation(animations.offsetSymbolY, 'offsetSymbolY');
             animations.bgPercent = updateAnimation(animations.bgPercent, 'bgPercent');
+            animations.zIndex = updateAnimation(animations.zIndex, 'zIndex');
+
+            if (tile.zIndex !== previousZIndex) {
+                this.cellIndex.reorder(tile);
+            }
+
+            if (tile.x !== previousX || tile.y !== previousY) {
+                this.cellIndex.update(tile);
+                // Also dirty where the tile was, so the old position gets cleared
+                this.markDirty({ ...tile, x: previousX, y: previousY });
+            }
+
+            this.markDirty(tile);
 
-            this.dirtyMask.markDirty(tile);
+            // Clean up once every chain has run out
+            if (Object.values(animations).every(animation => !animation)) {
+                this.valueAnimations.delete(tileId);
+                this.finishAnimation('value', tileId, false);
+            }
         }
     }
 
-    public setViewport(x: number, y: number) {
-        if (this.viewport.x !== x || this.viewport.y !== y) {
-            logger.debug(`Setting viewport to (${x},${y})`);
-            
-            this.viewport.x = Math.max(0, Math.min(x, this.worldWidth - this.viewport.width));
-            this.viewport.y = Math.max(0, Math.min(y, this.worldHeight - this.viewport.height));
+    /**
+     * Animate tile properties through any number of keyframes, instead of chaining
+     * start/end animations with `next`. Each property gets its own track of
+     * (time, value, easing) keyframes; numbers and colors are interpolated between
+     * keyframes and symbols switch at them. Tracks play once by default, or loop
+     * or ping-pong per the animation's or the track's own mode. Replaces any
+     * keyframe animation already running on the tile.
+     */
+    public addKeyframeAnimation(tileId: TileId, options: TileKeyframeAnimationOptions): AnimationHandle {
+        if (!this.tileMap.has(tileId)) {
+            logger.warn(`Attempted to add animation to non-existent tile: ${tileId}`);
+            return this.createFinishedAnimationHandle();
+        }
+
+        const mode = options.mode ?? 'once';
+        const resolve = <T>(property: string, track: KeyframeTrackOption<T> | undefined): ResolvedKeyframeTrack<T> | undefined => {
+            if (!track) return undefined;
+            const resolved = resolveKeyframeTrack(track, mode);
+            if (resolved.keyframes.length === 0) {
+                logger.warn(`Ignoring keyframe track without keyframes for ${property} of tile ${tileId}`);
+                return undefined;
+            }
+            return resolved;
+        };
+
+        const animation: KeyframeAnimation = {
+            numbers: {},
+            colors: {},
+            char: resolve('char', options.char),
+            colorSpace: options.colorSpace ?? 'srgb',
+            startTime: options.startTime ?? performance.now(),
+            running: true
+        };
+        KEYFRAME_NUMBER_PROPERTIES.forEach(property => {
+            animation.numbers[property] = resolve(property, options[property]);
+        });
+        KEYFRAME_COLOR_PROPERTIES.forEach(property => {
+            const track = resolve(property, options[property]);
+            if (!track) return;
+            const invalid = track.keyframes.find(keyframe => !this.resolveColor(keyframe.value));
+            if (invalid) {
+                logger.warn(`Ignoring keyframe track with invalid color ${invalid.value} for ${property} of tile ${tileId}`);
+                return;
+            }
+            // Palette roles stay as they are, to be looked up as the track plays
+            animation.colors[property] = {
+                ...track,
+                keyframes: track.keyframes.map(keyframe => ({
+                    ...keyframe,
+                    value: this.getColorRole(keyframe.value) !== undefined ? keyframe.value : normalizeColor(keyframe.value)!
+                }))
+            };
+        });
+
+        const handle = this.createAnimationHandle('keyframe', tileId);
+        this.keyframeAnimations.set(tileId, animation);
+        return handle;
+    }
+
+    private updateKeyframeAnimations(timestamp: number): void {
+        for (const [tileId, animation] of this.keyframeAnimations) {
+            const tile = this.tileMap.get(tileId);
+            if (!tile || !animation.running) {
+                if (!tile) {
+                    this.keyframeAnimations.delete(tileId);
+                    this.finishAnimation('keyframe', tileId, true);
+                }
+                continue;
+            }
+
+            const elapsed = (timestamp - animation.startTime) / 1000;
+            const previousX = tile.x;
+            const previousY = tile.y;
+            const previousZIndex = tile.zIndex;
+            let done = true;
+
+            KEYFRAME_NUMBER_PROPERTIES.forEach(property => {
+                const track = animation.numbers[property];
+                if (!track) return;
+                const sample = sampleKeyframeTrack(track, elapsed, (from, to, t) => from + (to - from) * t);
+                this.trackAnimationStep('keyframe', tileId, property, sample.cycle);
+                tile[property] = sample.value;
+                done = done && sample.done;
+            });
+            KEYFRAME_COLOR_PROPERTIES.forEach(property => {
+                const track = animation.colors[property];
+                if (!track) return;
+                const sample = sampleKeyframeTrack(track, elapsed, (from, to, t) =>
+                    interpolateColor(this.getPaletteColor(from), this.getPaletteColor(to), t, animation.colorSpace));
+                this.trackAnimationStep('keyframe', tileId, property, sample.cycle);
+                tile[property] = this.getPaletteColor(sample.value);
+                if (sample.done) {
+                    tile[property === 'color' ? 'colorRole' : 'backgroundColorRole'] = this.getColorRole(sample.value);
+                }
+                done = done && sample.done;
+            });
+            if (animation.char) {
+                const sample = sampleKeyframeTrack(animation.char, elapsed);
+                this.trackAnimationStep('keyframe', tileId, 'char', sample.cycle);
+                tile.char = sample.value;
+                done = done && sample.done;
+            }
+
+            if (tile.zIndex !== previousZIndex) {
+                this.cellIndex.reorder(tile);
+            }
+
+            if (tile.x !== previousX || tile.y !== previousY) {
+                this.cellIndex.update(tile);
+                this.markDirty({ ...tile, x: previousX, y: previousY });
+            }
+
+            this.markDirty(tile);
+
+            if (done) {
+                this.keyframeAnimations.delete(tileId);
+                this.finishAnimation('keyframe', tileId, false);
+            }
+        }
+    }
+
+    /**
+     * Spring tile properties towards targets. Unlike a tween there is no fixed
+     * duration: the spring's stiffness, damping and mass decide how it gets there,
+     * and the handle finishes once every property has come to rest. Springing a
+     * tile that is already in motion retargets it, keeping the current velocity, so
+     * a move buffered mid-flight bends smoothly into the next one.
+     *
+     * Don't animate the same property with addValueAnimation at the same time.
+     */
+    public springTile(tileId: TileId, targets: MotionValues, options: SpringOptions = {}): AnimationHandle {
+        const tile = this.tileMap.get(tileId);
+        if (!tile) {
+            logger.warn(`Attempted to spring non-existent tile: ${tileId}`);
+            return this.createFinishedAnimationHandle();
+        }
+
+        const startTime = options.startTime ?? this.lastFrameTime ?? performance.now();
+        const motions = this.motions.get(tileId) ?? {};
+        MOTION_PROPERTIES.forEach(property => {
+            const target = targets[property];
+            if (target === undefined) return;
+            motions[property] = retargetSpring(motions[property], tile[property], target, startTime, options, options.velocity?.[property]);
+        });
+
+        return this.startMotions(tileId, motions);
+    }
+
+    /**
+     * Send tile properties off at the given velocities, in units per second, slowing
+     * down exponentially until they stop, as after a throw or a knockback.
+     */
+    public glideTile(tileId: TileId, velocities: MotionValues, options: DecayOptions = {}): AnimationHandle {
+        const tile = this.tileMap.get(tileId);
+        if (!tile) {
+            logger.warn(`Attempted to glide non-existent tile: ${tileId}`);
+            return this.createFinishedAnimationHandle();
+        }
+
+        const startTime = options.startTime ?? this.lastFrameTime ?? performance.now();
+        const motions = this.motions.get(tileId) ?? {};
+        MOTION_PROPERTIES.forEach(property => {
+            const velocity = velocities[property];
+            if (velocity === undefined) return;
+            motions[property] = startDecay(motions[property], tile[property], velocity, startTime, options);
+        });
+
+        return this.startMotions(tileId, motions);
+    }
+
+    // Current velocities of a tile's springs and glides, in units per second
+    public getTileVelocity(tileId: TileId): MotionValues {
+        const velocities: MotionValues = {};
+        const motions = this.motions.get(tileId) ?? {};
+        MOTION_PROPERTIES.forEach(property => {
+            const motion = motions[property];
+            if (motion) velocities[property] = motion.velocity;
+        });
+        return velocities;
+    }
+
+    // Properties already in motion keep going under the new handle
+    private startMotions(tileId: TileId, motions: { [P in MotionProperty]?: Motion }): AnimationHandle {
+        const handle = this.createAnimationHandle('motion', tileId);
+        this.motions.set(tileId, motions);
+        return handle;
+    }
+
+    private updateMotions(timestamp: number): void {
+        for (const [tileId, motions] of this.motions) {
+            const tile = this.tileMap.get(tileId);
+            if (!tile) {
+                this.motions.delete(tileId);
+                this.finishAnimation('motion', tileId, true);
+                continue;
+            }
+
+            const previousX = tile.x;
+            const previousY = tile.y;
+
+            MOTION_PROPERTIES.forEach(property => {
+                const motion = motions[property];
+                if (!motion || !motion.running) return;
+
+                const settled = stepMotion(motion, Math.max(timestamp - motion.startTime, 0) / 1000);
+                motion.startTime = timestamp;
+                this.trackAnimationStep('motion', tileId, property, 0);
+                tile[property] = motion.value;
+                if (settled) {
+                    delete motions[property];
+                }
+            });
+
+            if (tile.x !== previousX || tile.y !== previousY) {
+                this.cellIndex.update(tile);
+                this.markDirty({ ...tile, x: previousX, y: previousY });
+            }
+
+            this.markDirty(tile);
+
+            if (Object.keys(motions).length === 0) {
+                this.motions.delete(tileId);
+                this.finishAnimation('motion', tileId, false);
+            }
+        }
+    }
+
+    private createAnimationHandle(
+        kind: AnimationKind,
+        target: string,
+        chains?: { [property: string]: ChainedAnimation | undefined }
+    ): AnimationHandle {
+        // Whatever this kind of animation was doing to the target gets replaced
+        this.finishAnimation(kind, target, true);
+
+        const handle = new AnimationHandle({
+            cancel: () => {
+                this.removeAnimations(kind, target);
+                this.finishAnimation(kind, target, true);
+            },
+            pause: () => {
+                state.pausedAt = this.lastFrameTime ?? performance.now();
+                this.shiftAnimations(state, 0, false);
+            },
+            resume: () => {
+                const now = this.lastFrameTime ?? performance.now();
+                this.shiftAnimations(state, now - (state.pausedAt ?? now), true);
+                state.pausedAt = null;
+            },
+            seek: seconds => {
+                const now = state.pausedAt ?? this.lastFrameTime ?? performance.now();
+                if (state.chains) {
+                    this.seekChains(state, now, seconds);
+                } else if (kind === 'motion') {
+                    // Replay from where each property was last retargeted
+                    Object.values(this.motions.get(target) ?? {}).forEach(motion => {
+                        if (!motion) return;
+                        motion.value = motion.origin.value;
+                        motion.velocity = motion.origin.velocity;
+                        motion.startTime = now - seconds * 1000;
+                    });
+                } else {
+                    this.getCurrentAnimations(kind, target).forEach(animation => {
+                        animation.startTime = now - seconds * 1000;
+                    });
+                }
+                state.refresh = state.pausedAt !== null;
+            }
+        });
+
+        const state: AnimationState = {
+            handle,
+            kind,
+            target,
+            started: false,
+            stepped: false,
+            looped: false,
+            cycles: new Map(),
+            pausedAt: null,
+            refresh: false,
+            ended: null,
+            chains: chains ? { ...chains } : undefined
+        };
+        this.animationStates.set(`${kind}:${target}`, state);
+        return handle;
+    }
+
+    // The role a '$role' color refers to, or undefined for a literal color
+    private getColorRole(color: Color): string | undefined {
+        return typeof color === 'string' && color.startsWith(PALETTE_ROLE_PREFIX) ? color.slice(PALETTE_ROLE_PREFIX.length) : undefined;
+    }
+
+    // The #RRGGBBAA form of a color, with palette roles looked up in the active palette
+    private resolveColor(color: Color): Color | undefined {
+        const role = this.getColorRole(color);
+        return role !== undefined ? this.activePaletteColors[role] : normalizeColor(color);
+    }
+
+    // For colors stored as given, which may be palette roles. Roles the palette no longer has come out transparent
+    private getPaletteColor(color: Color): Color {
+        const role = this.getColorRole(color);
+        return role !== undefined ? this.activePaletteColors[role] ?? '#00000000' : color;
+    }
+
+    // resolveColor, with a warning if the color can't be read
+    private validateColor(color: Color, context: string): Color | undefined {
+        const resolved = this.resolveColor(color);
+        if (!resolved) {
+            logger.warn(`Invalid color ${context}: ${color}`);
+        }
+        return resolved;
+    }
+
+    // For calls that couldn't start anything, so awaiting them doesn't hang
+    private createFinishedAnimationHandle(): AnimationHandle {
+        const handle = new AnimationHandle({ cancel() {}, pause() {}, resume() {}, seek() {} });
+        handle.settle();
+        return handle;
+    }
+
+    // The animations a handle currently has running, one per animated property
+    private getCurrentAnimations(kind: AnimationKind, target: string): { startTime: number, running: boolean }[] {
+        const animations: ({ startTime: number, running: boolean } | undefined)[] =
+            kind === 'symbol' ? [this.symbolAnimations.get(target)] :
+            kind === 'color' ? Object.values(this.colorAnimations.get(target) ?? {}) :
+            kind === 'value' ? Object.values(this.valueAnimations.get(target) ?? {}) :
+            kind === 'keyframe' ? [this.keyframeAnimations.get(target)] :
+            kind === 'motion' ? Object.values(this.motions.get(target) ?? {}) :
+            Object.values(this.groupAnimations.get(target) ?? {});
+        return animations.filter((animation): animation is { startTime: number, running: boolean } => !!animation);
+    }
+
+    // Put every property at the step of its chain that is seconds in, including properties whose chain had run out
+    private seekChains(state: AnimationState, now: number, seconds: number): void {
+        const current = (
+            state.kind === 'value' ? this.valueAnimations.get(state.target) :
+            state.kind === 'color' ? this.colorAnimations.get(state.target) :
+            this.groupAnimations.get(state.target)
+        ) as { [property: string]: ChainedAnimation | undefined } | undefined;
+        if (!current) return;
+
+        for (const [property, first] of Object.entries(state.chains!)) {
+            if (!first) continue;
+
+            let step = first;
+            let remaining = seconds;
+            while (step.next && !step.loop && remaining >= step.duration * (1 - step.offset)) {
+                remaining -= step.duration * (1 - step.offset);
+                step = step.next;
+            }
+            step.startTime = now - remaining * 1000;
+            step.running = state.pausedAt === null;
+            current[property] = step;
+        }
+    }
+
+    private shiftAnimations(state: AnimationState, milliseconds: number, running: boolean): void {
+        this.getCurrentAnimations(state.kind, state.target).forEach(animation => {
+            animation.startTime += milliseconds;
+            animation.running = running;
+        });
+    }
+
+    private removeAnimations(kind: AnimationKind, target: string): void {
+        const animations = {
+            symbol: this.symbolAnimations,
+            color: this.colorAnimations,
+            value: this.valueAnimations,
+            keyframe: this.keyframeAnimations,
+            motion: this.motions,
+            group: this.groupAnimations
+        }[kind];
+        animations.delete(target);
+    }
+
+    private trackAnimationStep(kind: AnimationKind, target: string, property: string, cycle: number): void {
+        const state = this.animationStates.get(`${kind}:${target}`);
+        if (!state) return;
+
+        state.stepped = true;
+        const previous = state.cycles.get(property);
+        if (previous !== undefined && cycle > previous) {
+            state.looped = true;
+        }
+        state.cycles.set(property, cycle);
+    }
+
+    private finishAnimation(kind: AnimationKind, target: string, cancelled: boolean): void {
+        const state = this.animationStates.get(`${kind}:${target}`);
+        if (!state || state.ended) return;
+
+        state.ended = cancelled ? 'cancelled' : 'completed';
+        // Mid-frame, events go out together once every animation has been stepped
+        if (!this.updatingAnimations) {
+            this.flushAnimationEvents();
+        }
+    }
+
+    private flushAnimationEvents(): void {
+        for (const [key, state] of this.animationStates) {
+            const event = { kind: state.kind, target: state.target, handle: state.handle };
+            if (state.stepped && !state.started) {
+                state.started = true;
+                this.emitAnimationEvent({ ...event, type: 'start' });
+            }
+            if (state.looped) {
+                this.emitAnimationEvent({ ...event, type: 'loop' });
+            }
+            state.stepped = false;
+            state.looped = false;
+
+            if (state.ended) {
+                this.animationStates.delete(key);
+                this.emitAnimationEvent({ ...event, type: 'end', cancelled: state.ended === 'cancelled' });
+                state.handle.settle();
+            }
+        }
+    }
+
+    private emitAnimationEvent(event: AnimationEvent): void {
+        this.animationCallbacks.forEach(callback => callback(event, this));
+    }
+
+    private createValueAnimation(config: ValueAnimationOption, startTime: number): ValueAnimation {
+        return {
+            startValue: config.start,
+            endValue: config.end,
+            duration: config.duration,
+            startTime,
+            reverse: config.reverse || false,
+            offset: config.offset || 0,
+            easing: resolveEasing(config.easing) ?? Easing.linear,
+            loop: config.loop ?? true,
+            next: config.next ? this.createValueAnimation(config.next, startTime) : undefined,
+            running: true  // Set initial state to running
+        };
+    }
+
+    // Advance a value animation to timestamp. Returns its current value and the
+    // animation to keep running: the same one, the next in its chain, or undefined.
+    private stepValueAnimation(
+        animation: ValueAnimation,
+        timestamp: number
+    ): { value: number, animation: ValueAnimation | undefined, cycle: number } {
+        const elapsed = (timestamp - animation.startTime) / 1000;
+        let progress = (elapsed / animation.duration) + animation.offset;
+        const cycle = animation.loop ? Math.floor(progress) : 0;
+
+        if (animation.loop) {
+            if (animation.reverse) {
+                progress = progress % 2;
+                if (progress > 1) {
+                    progress = 2 - progress;
+                }
+            } else {
+                progress = progress % 1;
+            }
+        } else {
+            progress = Math.min(progress, 1);
+        }
+
+        const easedProgress = animation.easing(progress);
+        const value = animation.startValue + 
+            (animation.endValue - animation.startValue) * easedProgress;
+        
+        // Check if animation is complete
+        if (!animation.loop && progress >= 1) {
+            if (animation.next) {
+                animation.next.startTime = timestamp;
+                return { value, animation: animation.next, cycle };
+            }
+            return { value, animation: undefined, cycle };
+        }
+        
+        return { value, animation, cycle };
+    }
+
+    /**
+     * Create a timeline to schedule and control animations across many tiles as
+     * one; see Timeline. It is driven by this display's frames until removed.
+     */
+    public createTimeline(): Timeline {
+        const timeline = new Timeline(this);
+        this.timelines.add(timeline);
+        return timeline;
+    }
+
+    // Animations the timeline started keep running unless cancelled
+    public removeTimeline(timeline: Timeline, cancelAnimations: boolean = true): void {
+        if (cancelAnimations) {
+            timeline.cancel();
+        }
+        this.timelines.delete(timeline);
+    }
+
+    /**
+     * Group tiles so they move, rotate, fade and restack together. Members are placed
+     * relative to the group's origin at (x, y); see TileGroup.
+     */
+    public createTileGroup(x: number = 0, y: number = 0, tileIds: TileId[] = []): TileGroup {
+        const id = `g_${this.tileGroupIdCounter++}`;
+        const group = new TileGroup(id, x, y, {
+            getTile: tileId => this.tileMap.get(tileId),
+            placeTile: (tile, placement) => this.placeGroupTile(tile, placement),
+            memberAdded: (tileId, group) => this.addTileGroupMember(tileId, group),
+            memberRemoved: (tileId, group) => {
+                if (this.tileGroupsByTile.get(tileId) === group) {
+                    this.tileGroupsByTile.delete(tileId);
+                }
+            }
+        });
+        this.tileGroups.set(id, group);
+        tileIds.forEach(tileId => group.add(tileId));
+        return group;
+    }
+
+    // Members stay where they are unless removeTiles is set
+    public removeTileGroup(groupId: string, removeTiles: boolean = false): void {
+        const group = this.tileGroups.get(groupId);
+        if (!group) {
+            logger.warn(`Attempted to remove non-existent tile group: ${groupId}`);
+            return;
+        }
+
+        this.tileGroups.delete(groupId);
+        group.getTileIds().forEach(tileId => this.tileGroupsByTile.delete(tileId));
+        this.clearTileGroupAnimations(groupId);
+        if (removeTiles) {
+            this.removeTiles(group.getTileIds());
+        }
+    }
+
+    private addTileGroupMember(tileId: TileId, group: TileGroup): void {
+        // A group removed from the display no longer recolors its tiles
+        if (this.tileGroups.get(group.id) !== group) return;
+
+        const previous = this.tileGroupsByTile.get(tileId);
+        if (previous && previous !== group) {
+            previous.remove(tileId);
+        }
+        this.tileGroupsByTile.set(tileId, group);
+    }
+
+    public getTileGroup(groupId: string): TileGroup | undefined {
+        return this.tileGroups.get(groupId);
+    }
+
+    /**
+     * Animate a group's transform with the same options as addValueAnimation. Every
+     * member follows each frame, so a moving group stays in one piece.
+     */
+    public addTileGroupAnimation(groupId: string, options: TileGroupAnimationOptions): AnimationHandle {
+        if (!this.tileGroups.has(groupId)) {
+            logger.warn(`Attempted to add animation to non-existent tile group: ${groupId}`);
+            return this.createFinishedAnimationHandle();
+        }
+
+        const startTime = options.startTime ?? performance.now();
+        const animations: { [K in keyof TileGroupTransform]?: ValueAnimation } = {};
+        const properties: (keyof TileGroupTransform)[] = ['x', 'y', 'offsetX', 'offsetY', 'rotation', 'opacity', 'zBias'];
+        properties.forEach(property => {
+            const config = options[property];
+            if (config) {
+                animations[property] = this.createValueAnimation(config, startTime);
+            }
+        });
+
+        const handle = this.createAnimationHandle('group', groupId, animations);
+        this.groupAnimations.set(groupId, animations);
+        return handle;
+    }
+
+    public clearTileGroupAnimations(groupId: string): void {
+        this.groupAnimations.delete(groupId);
+        this.finishAnimation('group', groupId, true);
+    }
+
+    private updateGroupAnimations(timestamp: number): void {
+        for (const [groupId, animations] of this.groupAnimations) {
+            const group = this.tileGroups.get(groupId);
+            if (!group) {
+                this.groupAnimations.delete(groupId);
+                this.finishAnimation('group', groupId, true);
+                continue;
+            }
+
+            // Collect every property first, so members are placed once per frame
+            const transform: Partial<TileGroupTransform> = {};
+            for (const property of Object.keys(animations) as (keyof TileGroupTransform)[]) {
+                const animation = animations[property];
+                if (!animation || !animation.running) continue;
+
+                const step = this.stepValueAnimation(animation, timestamp);
+                this.trackAnimationStep('group', groupId, property, step.cycle);
+                transform[property] = step.value;
+                animations[property] = step.animation;
+            }
+            group.setTransform(transform);
+
+            if (Object.values(animations).every(animation => !animation)) {
+                this.groupAnimations.delete(groupId);
+                this.finishAnimation('group', groupId, false);
+            }
+        }
+    }
+
+    // Put a group member where its group says, keeping the cell index and dirty mask in step
+    private placeGroupTile(tile: Tile, placement: TilePlacement): void {
+        this.hasChanges = true;
+        this.markDirty(tile);
+
+        const moved = tile.x !== placement.x || tile.y !== placement.y;
+        const restacked = tile.zIndex !== placement.zIndex;
+        tile.x = placement.x;
+        tile.y = placement.y;
+        tile.zIndex = placement.zIndex;
+        tile.rotation = placement.rotation;
+        tile.color = placement.color ?? tile.color;
+        tile.backgroundColor = placement.backgroundColor ?? tile.backgroundColor;
+
+        if (moved) {
+            this.cellIndex.update(tile);
+        }
+        if (restacked) {
+            this.cellIndex.reorder(tile);
         }
+        this.markDirty(tile);
+    }
+
+    public setViewport(x: number, y: number) {
+        this.mainView.setPosition(x, y);
     }
 
     public clearAnimations(tileId: TileId): void {
         this.symbolAnimations.delete(tileId);
         this.colorAnimations.delete(tileId);
         this.valueAnimations.delete(tileId);
+        this.keyframeAnimations.delete(tileId);
+        this.motions.delete(tileId);
+        this.finishAnimation('symbol', tileId, true);
+        this.finishAnimation('color', tileId, true);
+        this.finishAnimation('value', tileId, true);
+        this.finishAnimation('keyframe', tileId, true);
+        this.finishAnimation('motion', tileId, true);
         
         logger.verbose(`Cleared all animations for tile ${tileId}`);
     }
@@ -1154,18 +2460,46 @@ Dirty Tiles: ${this.metrics.lastDirtyTileCount} (avg: ${this.metrics.averageDirt
                 if (anim) stopChain(anim);
             });
         }
+
+        // Stop keyframe animations
+        const keyframeAnim = this.keyframeAnimations.get(tileId);
+        if (keyframeAnim) {
+            keyframeAnim.running = false;
+        }
+
+        // Stop springs and momentum where they are
+        Object.values(this.motions.get(tileId) ?? {}).forEach(motion => {
+            if (motion) motion.running = false;
+        });
     }
 
     public toggleDirtyMask(): boolean {
         this.useDirtyMask = !this.useDirtyMask;
         // Force full redraw when toggling
         if (this.useDirtyMask) {
-            this.dirtyMask.clear();
+            this.sortedLayers.forEach(layer => layer.dirtyMask.clear());
         }
+        this.getAllViews().forEach(view => view.invalidate());
         this.hasChanges = true;
         return this.useDirtyMask;
     }
 
+    public toggleGlyphAtlas(): boolean {
+        if (!this.renderer.toggleGlyphAtlas) {
+            return false;
+        }
+
+        const enabled = this.renderer.toggleGlyphAtlas();
+        // What's on the canvas was drawn the other way, so every tile has to be drawn again
+        this.tileMap.forEach(tile => this.markDirty(tile));
+        this.hasChanges = true;
+        return enabled;
+    }
+
+    public getRenderer(): Renderer {
+        return this.renderer;
+    }
+
     public addFrameCallback(callback: (display: Display) => void): void {
         this.frameCallbacks.add(callback);
     }
@@ -1174,7 +2508,36 @@ Dirty Tiles: ${this.metrics.lastDirtyTileCount} (avg: ${this.metrics.averageDirt
         this.frameCallbacks.delete(callback);
     }
 
-    public getDirtyMask(): readonly boolean[][] {
-        return this.dirtyMask.getMask();
+    /**
+     * Get told when a region of regionSize x regionSize cells comes into or goes out
+     * of view, e.g. to generate or unload tiles on the fly. Regions are checked once
+     * per frame, after frame callbacks and before drawing, so tiles created in an
+     * 'enter' callback show up that same frame. Regions already in view are reported
+     * to a new callback right away.
+     */
+    public addRegionCallback(callback: (event: RegionEvent, display: Display) => void): void {
+        this.regionCallbacks.add(callback);
+        this.visibleRegions.forEach(region => callback({ ...region, type: 'enter' }, this));
+    }
+
+    public removeRegionCallback(callback: (event: RegionEvent, display: Display) => void): void {
+        this.regionCallbacks.delete(callback);
+    }
+
+    /**
+     * Get told when animations start, loop and end. Events for a frame go out after
+     * every animation has been stepped, before frame callbacks. 'end' comes once per
+     * handle, with cancelled set when it didn't run to completion.
+     */
+    public addAnimationEventCallback(callback: (event: AnimationEvent, display: Display) => void): void {
+        this.animationCallbacks.add(callback);
+    }
+
+    public removeAnimationEventCallback(callback: (event: AnimationEvent, display: Display) => void): void {
+        this.animationCallbacks.delete(callback);
+    }
+
+    public getDirtyMask(layer: string = DEFAULT_LAYER): readonly boolean[][] {
+        return this.layers.get(layer)?.dirtyMask.getMask() ?? [];
     }
 } 
\ No newline at end of file
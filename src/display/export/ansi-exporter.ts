@@ -0,0 +1,178 @@
+import { Display } from '../display';
+import { Color, DEFAULT_LAYER, FillDirection, Tile } from '../types';
+import { parseHexColor, RGBA } from '../util/color';
+
+export type AnsiColorMode = 'truecolor' | '256';
+
+export interface AnsiExportOptions {
+    colorMode?: AnsiColorMode;          // Default 'truecolor' (24-bit)
+    region?: 'viewport' | 'world';      // Default 'viewport'
+    halfBlocks?: boolean;               // Approximate partial bgPercent with block characters (default true)
+}
+
+interface AnsiCell {
+    char: string;
+    fg: RGBA | null;
+    bg: RGBA | null;
+}
+
+const ESC = '\x1b[';
+const RESET = `${ESC}0m`;
+
+const PARTIAL_FILL_CHARS: Record<FillDirection, string> = {
+    [FillDirection.TOP]: '▀',
+    [FillDirection.RIGHT]: '▐',
+    [FillDirection.BOTTOM]: '▄',
+    [FillDirection.LEFT]: '▌'
+};
+
+/**
+ * Render the visible part of a Display as a string of ANSI escape codes, one line
+ * per row, for dumping into terminals, CI logs and bug reports.
+ *
+ * Like the renderer, it skips tiles on hidden layers and stacks the rest bottom
+ * layer first.
+ *
+ * Each cell takes its char and foreground from the topmost tile and its background
+ * from the topmost tile with a visible background. bgPercent is approximated: under
+ * a quarter is ignored, over three quarters counts as a full fill, and anything in
+ * between becomes a half block if the cell has no glyph on top.
+ */
+export function exportAnsi(display: Display, options: AnsiExportOptions = {}): string {
+    const colorMode = options.colorMode ?? 'truecolor';
+    const halfBlocks = options.halfBlocks ?? true;
+
+    let left = 0;
+    let top = 0;
+    let width = display.getWorldWidth();
+    let height = display.getWorldHeight();
+    if ((options.region ?? 'viewport') === 'viewport') {
+        const viewport = display.getViewport();
+        const zoom = viewport.zoom ?? 1;
+        left = Math.floor(viewport.x);
+        top = Math.floor(viewport.y);
+        width = Math.ceil(viewport.width / zoom);
+        height = Math.ceil(viewport.height / zoom);
+    }
+
+    const layers = display.getLayers().filter(layer => display.getLayerOptions(layer)?.visible);
+
+    const lines: string[] = [];
+    for (let y = 0; y < height; y++) {
+        let line = '';
+        let lastFg: string | null = null;
+        let lastBg: string | null = null;
+
+        for (let x = 0; x < width; x++) {
+            const tiles = display.getTilesAt(left + x, top + y);
+            const stack = layers.flatMap(layer => tiles.filter(tile => (tile.layer ?? DEFAULT_LAYER) === layer));
+            const cell = resolveCell(stack, halfBlocks);
+
+            const fg = cell.fg ? colorCode(cell.fg, colorMode, false) : `${ESC}39m`;
+            const bg = cell.bg ? colorCode(cell.bg, colorMode, true) : `${ESC}49m`;
+            if (fg !== lastFg) {
+                line += fg;
+                lastFg = fg;
+            }
+            if (bg !== lastBg) {
+                line += bg;
+                lastBg = bg;
+            }
+            line += cell.char;
+        }
+
+        lines.push(line + RESET);
+    }
+
+    return lines.join('\n');
+}
+
+function resolveCell(stack: Tile[], halfBlocks: boolean): AnsiCell {
+    const cell: AnsiCell = { char: ' ', fg: null, bg: null };
+    if (stack.length === 0) {
+        return cell;
+    }
+
+    const topTile = stack[stack.length - 1];
+    cell.char = topTile.char || ' ';
+    cell.fg = visibleColor(topTile.color);
+
+    // Walk down the stack to the first background that is (mostly) filled
+    let partial: Tile | null = null;
+    for (let i = stack.length - 1; i >= 0; i--) {
+        const tile = stack[i];
+        const bg = visibleColor(tile.backgroundColor);
+        if (!bg || tile.bgPercent < 0.25) continue;
+
+        if (tile.bgPercent >= 0.75) {
+            cell.bg = bg;
+            break;
+        }
+
+        // Partial fill: draw it as a block if nothing is on top, and keep looking
+        // for the background underneath
+        if (halfBlocks && cell.char === ' ' && !partial) {
+            partial = tile;
+            continue;
+        }
+
+        if (tile.bgPercent >= 0.5) {
+            cell.bg = bg;
+            break;
+        }
+    }
+
+    if (partial) {
+        // The block is drawn in the foreground color, over whatever background is below
+        cell.char = PARTIAL_FILL_CHARS[partial.fillDirection];
+        cell.fg = visibleColor(partial.backgroundColor);
+    }
+
+    return cell;
+}
+
+function visibleColor(color: Color | undefined): RGBA | null {
+    if (!color) return null;
+    const rgba = parseHexColor(color);
+    if (isNaN(rgba.r) || isNaN(rgba.g) || isNaN(rgba.b) || rgba.a === 0) {
+        return null;
+    }
+    return rgba;
+}
+
+function colorCode(color: RGBA, mode: AnsiColorMode, background: boolean): string {
+    const layer = background ? 48 : 38;
+    if (mode === 'truecolor') {
+        return `${ESC}${layer};2;${color.r};${color.g};${color.b}m`;
+    }
+    return `${ESC}${layer};5;${toAnsi256(color)}m`;
+}
+
+// Nearest entry in the xterm 256-color palette: the 6x6x6 cube or the grayscale ramp
+function toAnsi256(color: RGBA): number {
+    const levels = [0, 95, 135, 175, 215, 255];
+    const nearestLevel = (value: number) => {
+        let best = 0;
+        for (let i = 1; i < levels.length; i++) {
+            if (Math.abs(levels[i] - value) < Math.abs(levels[best] - value)) {
+                best = i;
+            }
+        }
+        return best;
+    };
+
+    const r = nearestLevel(color.r);
+    const g = nearestLevel(color.g);
+    const b = nearestLevel(color.b);
+    const cubeIndex = 16 + 36 * r + 6 * g + b;
+    const cubeDistance =
+        (levels[r] - color.r) ** 2 + (levels[g] - color.g) ** 2 + (levels[b] - color.b) ** 2;
+
+    const gray = (color.r + color.g + color.b) / 3;
+    const grayStep = Math.max(0, Math.min(23, Math.round((gray - 8) / 10)));
+    const grayValue = 8 + grayStep * 10;
+    const grayDistance =
+        (grayValue - color.r) ** 2 + (grayValue - color.g) ** 2 + (grayValue - color.b) ** 2;
+
+    return grayDistance < cubeDistance ? 232 + grayStep : cubeIndex;
+}
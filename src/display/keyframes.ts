@@ -0,0 +1,77 @@
+import { EasingFunction, Keyframe, KeyframeMode, KeyframeTrack, KeyframeTrackOption } from './types';
+import { resolveEasing } from './util/easing';
+
+export type Interpolator<T> = (from: T, to: T, t: number) => T;
+
+export interface KeyframeSample<T> {
+    value: T;
+    cycle: number;      // Times the track has wrapped around, 0 for 'once'
+    done: boolean;      // Past the last keyframe of a 'once' track
+}
+
+export type ResolvedKeyframe<T> = Omit<Keyframe<T>, 'easing'> & { easing?: EasingFunction };
+
+// A track ready to sample: keyframes in time order with easing names looked up, mode and offset filled in
+export interface ResolvedKeyframeTrack<T> {
+    keyframes: ResolvedKeyframe<T>[];
+    mode: KeyframeMode;
+    offset: number;
+}
+
+export function resolveKeyframeTrack<T>(track: KeyframeTrackOption<T>, mode: KeyframeMode): ResolvedKeyframeTrack<T> {
+    const options: KeyframeTrack<T> = Array.isArray(track) ? { keyframes: track } : track;
+    return {
+        keyframes: options.keyframes
+            .map(keyframe => ({ ...keyframe, easing: resolveEasing(keyframe.easing) }))
+            .sort((a, b) => a.time - b.time),
+        mode: options.mode ?? mode,
+        offset: options.offset ?? 0
+    };
+}
+
+/**
+ * Value of a track the given number of seconds in. Before the first keyframe the
+ * track holds its first value. Without an interpolator values switch at each
+ * keyframe, which is how symbols animate. A track whose keyframes all share one
+ * time has nothing to loop over, so it counts as done whatever its mode.
+ */
+export function sampleKeyframeTrack<T>(
+    track: ResolvedKeyframeTrack<T>,
+    seconds: number,
+    interpolate?: Interpolator<T>
+): KeyframeSample<T> {
+    const keyframes = track.keyframes;
+    const duration = keyframes[keyframes.length - 1].time;
+    let time = Math.max(seconds + track.offset, 0);
+    let cycle = 0;
+    let done = false;
+
+    if (track.mode === 'once' || duration <= 0) {
+        done = time >= duration;
+        time = Math.min(time, duration);
+    } else {
+        cycle = Math.floor(time / duration);
+        time -= cycle * duration;
+        if (track.mode === 'pingpong' && cycle % 2 === 1) {
+            time = duration - time;
+        }
+    }
+
+    const nextIndex = keyframes.findIndex(keyframe => keyframe.time > time);
+    if (nextIndex === -1) {
+        return { value: keyframes[keyframes.length - 1].value, cycle, done };
+    }
+    if (nextIndex === 0) {
+        return { value: keyframes[0].value, cycle, done };
+    }
+
+    const from = keyframes[nextIndex - 1];
+    const to = keyframes[nextIndex];
+    if (!interpolate) {
+        return { value: from.value, cycle, done };
+    }
+
+    const progress = (time - from.time) / (to.time - from.time);
+    const eased = to.easing ? to.easing(progress) : progress;
+    return { value: interpolate(from.value, to.value, eased), cycle, done };
+}
@@ -0,0 +1,147 @@
+import { DecayOptions, SpringOptions } from './types';
+
+/**
+ * One tile property moved by a spring or by momentum rather than a tween. Motion
+ * is solved in closed form from the state it was last stepped to, so any frame
+ * time gives the same path, and retargeting carries on from the current velocity.
+ */
+export interface Motion {
+    type: 'spring' | 'decay';
+    value: number;
+    velocity: number;           // Units per second
+    target: number;             // Where a spring pulls towards; where a decay will come to rest
+    stiffness: number;
+    damping: number;
+    mass: number;
+    timeConstant: number;       // Seconds
+    restSpeed: number;
+    restDelta: number;
+    startTime: number;          // When value and velocity were last stepped to
+    origin: { value: number, velocity: number };   // Where it was when last (re)targeted, for seeking
+    running: boolean;
+}
+
+const DEFAULT_STIFFNESS = 170;
+const DEFAULT_DAMPING = 26;
+const DEFAULT_MASS = 1;
+const DEFAULT_TIME_CONSTANT = 0.35;
+const DEFAULT_REST_SPEED = 0.01;
+const DEFAULT_REST_DELTA = 0.001;
+
+// Start a motion, or point an existing one somewhere new without losing its velocity
+export function retargetSpring(
+    motion: Motion | undefined,
+    value: number,
+    target: number,
+    startTime: number,
+    options: SpringOptions,
+    velocity?: number
+): Motion {
+    const current = velocity ?? motion?.velocity ?? 0;
+    const from = motion?.value ?? value;
+    return {
+        type: 'spring',
+        value: from,
+        velocity: current,
+        target,
+        stiffness: options.stiffness ?? DEFAULT_STIFFNESS,
+        damping: options.damping ?? DEFAULT_DAMPING,
+        mass: options.mass ?? DEFAULT_MASS,
+        timeConstant: DEFAULT_TIME_CONSTANT,
+        restSpeed: options.restSpeed ?? DEFAULT_REST_SPEED,
+        restDelta: options.restDelta ?? DEFAULT_REST_DELTA,
+        startTime,
+        origin: { value: from, velocity: current },
+        running: true
+    };
+}
+
+export function startDecay(
+    motion: Motion | undefined,
+    value: number,
+    velocity: number,
+    startTime: number,
+    options: DecayOptions
+): Motion {
+    const from = motion?.value ?? value;
+    const timeConstant = options.timeConstant ?? DEFAULT_TIME_CONSTANT;
+    return {
+        type: 'decay',
+        value: from,
+        velocity,
+        target: from + velocity * timeConstant,
+        stiffness: DEFAULT_STIFFNESS,
+        damping: DEFAULT_DAMPING,
+        mass: DEFAULT_MASS,
+        timeConstant,
+        restSpeed: options.restSpeed ?? DEFAULT_REST_SPEED,
+        restDelta: DEFAULT_REST_DELTA,
+        startTime,
+        origin: { value: from, velocity },
+        running: true
+    };
+}
+
+/**
+ * Advance a motion by seconds, updating its value and velocity. Returns whether it
+ * has come to rest, in which case a spring sits exactly on its target.
+ */
+export function stepMotion(motion: Motion, seconds: number): boolean {
+    if (motion.type === 'decay') {
+        const falloff = Math.exp(-seconds / motion.timeConstant);
+        motion.value = motion.target - motion.velocity * motion.timeConstant * falloff;
+        motion.velocity *= falloff;
+        if (Math.abs(motion.velocity) < motion.restSpeed) {
+            motion.velocity = 0;
+            return true;
+        }
+        return false;
+    }
+
+    const [displacement, velocity] = solveSpring(motion, motion.value - motion.target, motion.velocity, seconds);
+    motion.value = motion.target + displacement;
+    motion.velocity = velocity;
+    if (Math.abs(velocity) < motion.restSpeed && Math.abs(displacement) < motion.restDelta) {
+        motion.value = motion.target;
+        motion.velocity = 0;
+        return true;
+    }
+    return false;
+}
+
+// Displacement from the target and velocity, t seconds on, for a damped harmonic oscillator
+function solveSpring(motion: Motion, x0: number, v0: number, t: number): [number, number] {
+    const omega = Math.sqrt(motion.stiffness / motion.mass);
+    const zeta = motion.damping / (2 * Math.sqrt(motion.stiffness * motion.mass));
+
+    if (Math.abs(zeta - 1) < 1e-6) {
+        // Critically damped
+        const b = v0 + omega * x0;
+        const decay = Math.exp(-omega * t);
+        return [(x0 + b * t) * decay, (v0 - omega * b * t) * decay];
+    }
+
+    if (zeta < 1) {
+        // Underdamped: overshoots and oscillates around the target
+        const omegaD = omega * Math.sqrt(1 - zeta * zeta);
+        const a = x0;
+        const b = (v0 + zeta * omega * x0) / omegaD;
+        const decay = Math.exp(-zeta * omega * t);
+        const cos = Math.cos(omegaD * t);
+        const sin = Math.sin(omegaD * t);
+        return [
+            decay * (a * cos + b * sin),
+            decay * ((b * omegaD - zeta * omega * a) * cos - (a * omegaD + zeta * omega * b) * sin)
+        ];
+    }
+
+    // Overdamped: creeps in without overshooting
+    const root = omega * Math.sqrt(zeta * zeta - 1);
+    const r1 = -zeta * omega + root;
+    const r2 = -zeta * omega - root;
+    const c2 = (v0 - r1 * x0) / (r2 - r1);
+    const c1 = x0 - c2;
+    const e1 = Math.exp(r1 * t);
+    const e2 = Math.exp(r2 * t);
+    return [c1 * e1 + c2 * e2, r1 * c1 * e1 + r2 * c2 * e2];
+}
@@ -0,0 +1,142 @@
+import { PointerCellEventType } from './types';
+
+// The bits of an element pointer input needs, so tests can hand in a stand-in
+export interface PointerTarget {
+    addEventListener(type: string, listener: (event: PointerEvent) => void): void;
+    removeEventListener(type: string, listener: (event: PointerEvent) => void): void;
+    setPointerCapture?(pointerId: number): void;
+}
+
+export interface PointerHit {
+    worldX: number;
+    worldY: number;
+    viewId?: string;
+}
+
+interface PressState {
+    pointerId: number;
+    clientX: number;
+    clientY: number;
+    cell: { x: number, y: number };
+    dragging: boolean;
+}
+
+/**
+ * Turns DOM pointer events on the display element into cell-level events: hover
+ * enter/leave as the pointer crosses cell borders, click, and dragstart/drag/dragend
+ * once a press moves further than the drag threshold. Mapping from client to world
+ * coordinates is left to the Display.
+ */
+export class PointerInput {
+    private hovered: (PointerHit & { x: number, y: number }) | null = null;
+    private press: PressState | null = null;
+    private listeners: [string, (event: PointerEvent) => void][];
+
+    constructor(
+        private readonly target: PointerTarget,
+        private readonly resolve: (clientX: number, clientY: number) => PointerHit | null,
+        private readonly emit: (
+            type: PointerCellEventType,
+            hit: PointerHit,
+            event: PointerEvent,
+            dragStart?: { x: number, y: number }
+        ) => void,
+        private readonly dragThreshold: number = 4     // CSS pixels
+    ) {
+        this.listeners = [
+            ['pointermove', event => this.handleMove(event)],
+            ['pointerdown', event => this.handleDown(event)],
+            ['pointerup', event => this.handleUp(event)],
+            ['pointerleave', event => this.handleLeave(event)],
+            ['pointercancel', event => this.handleCancel(event)]
+        ];
+    }
+
+    public attach(): void {
+        this.listeners.forEach(([type, listener]) => this.target.addEventListener(type, listener));
+    }
+
+    public detach(): void {
+        this.listeners.forEach(([type, listener]) => this.target.removeEventListener(type, listener));
+        this.hovered = null;
+        this.press = null;
+    }
+
+    private handleMove(event: PointerEvent): void {
+        const hit = this.resolve(event.clientX, event.clientY);
+        this.updateHover(hit, event);
+
+        const press = this.press;
+        if (!press || press.pointerId !== event.pointerId || !hit) return;
+
+        if (!press.dragging) {
+            const distance = Math.hypot(event.clientX - press.clientX, event.clientY - press.clientY);
+            if (distance < this.dragThreshold) return;
+
+            press.dragging = true;
+            this.emit('dragstart', hit, event, press.cell);
+        }
+
+        this.emit('drag', hit, event, press.cell);
+    }
+
+    private handleDown(event: PointerEvent): void {
+        const hit = this.resolve(event.clientX, event.clientY);
+        if (!hit) return;
+
+        this.press = {
+            pointerId: event.pointerId,
+            clientX: event.clientX,
+            clientY: event.clientY,
+            cell: { x: Math.floor(hit.worldX), y: Math.floor(hit.worldY) },
+            dragging: false
+        };
+        // Keep getting moves while dragging outside the element
+        this.target.setPointerCapture?.(event.pointerId);
+    }
+
+    private handleUp(event: PointerEvent): void {
+        const press = this.press;
+        if (!press || press.pointerId !== event.pointerId) return;
+        this.press = null;
+
+        const hit = this.resolve(event.clientX, event.clientY);
+        if (press.dragging) {
+            // Drags end even off the element, at the last cell we can name
+            const end = hit ?? this.hovered ?? { worldX: press.cell.x, worldY: press.cell.y };
+            this.emit('dragend', end, event, press.cell);
+        } else if (hit) {
+            this.emit('click', hit, event);
+        }
+    }
+
+    private handleLeave(event: PointerEvent): void {
+        if (this.press?.dragging) return;
+        this.updateHover(null, event);
+    }
+
+    private handleCancel(event: PointerEvent): void {
+        if (this.press?.dragging && this.hovered) {
+            this.emit('dragend', this.hovered, event, this.press.cell);
+        }
+        this.press = null;
+    }
+
+    private updateHover(hit: PointerHit | null, event: PointerEvent): void {
+        const cell = hit ? { ...hit, x: Math.floor(hit.worldX), y: Math.floor(hit.worldY) } : null;
+        const previous = this.hovered;
+        if (previous && cell &&
+            previous.x === cell.x && previous.y === cell.y && previous.viewId === cell.viewId) {
+            this.hovered = cell;
+            return;
+        }
+
+        if (previous) {
+            this.emit('leave', previous, event);
+        }
+        this.hovered = cell;
+        if (cell) {
+            this.emit('enter', cell, event);
+        }
+    }
+}
@@ -0,0 +1,427 @@
+import { BlendMode, DEFAULT_LAYER, FillDirection, Rect, Tile, Viewport } from '../types';
+import { logger } from '../util/logger';
+import { CanvasChunk, ChunkedCanvas } from './chunked-canvas';
+import { GlyphAtlas } from './glyph-atlas';
+import { LayerPresentation, Renderer, RendererOptions } from './renderer';
+
+export interface CanvasRendererOptions {
+    chunkSize?: number;         // Cells per side of a world chunk (default 32)
+    chunkEvictionTime?: number; // Milliseconds a chunk may stay out of view before it's dropped (default 30000)
+}
+
+interface PresentView {
+    left: number;       // Layer pixel shown at the target's top-left
+    top: number;
+    targetX: number;    // Where it goes on the display canvas
+    targetY: number;
+    scaleX: number;     // Display pixels per layer pixel
+    scaleY: number;
+}
+
+/**
+ * Canvas2D renderer. Tiles are drawn into offscreen buffers made of chunk canvases,
+ * one per layer, and the viewport is composited from the chunks it overlaps onto
+ * the visible canvas.
+ */
+export class CanvasRenderer implements Renderer {
+    private displayCanvas: HTMLCanvasElement;    // The canvas shown to the user
+    private displayCtx: CanvasRenderingContext2D;
+    private layers: Map<string, ChunkedCanvas> = new Map();     // Layer buffers, created lazily chunk by chunk
+    private unbounded: boolean = false;
+    private worldSize: { width: number, height: number } = { width: 0, height: 0 };
+
+    private readonly scale: number;
+    private readonly chunkSize: number;
+    private readonly chunkEvictionTime: number;
+    private cellWidthScaled: number = 0;
+    private cellHeightScaled: number = 0;
+    private font: string = '';
+    private invalidateRegion?: (x: number, y: number, width: number, height: number, layer?: string) => void;
+
+    private glyphAtlas!: GlyphAtlas;
+    private useGlyphAtlas: boolean = true;
+
+    constructor(elementId?: string, options: CanvasRendererOptions = {}) {
+        this.scale = window.devicePixelRatio || 1;
+        this.chunkSize = options.chunkSize ?? 32;
+        this.chunkEvictionTime = options.chunkEvictionTime ?? 30000;
+
+        if (!elementId) {
+            logger.error('elementId is required');
+            throw new Error('elementId is required in DisplayConfig');
+        }
+
+        this.displayCanvas = document.getElementById(elementId) as HTMLCanvasElement;
+        if (!this.displayCanvas) {
+            logger.error(`Canvas element not found: ${elementId}`);
+            throw new Error(`Canvas element not found: ${elementId}`);
+        }
+
+        this.displayCtx = this.displayCanvas.getContext('2d')!;
+    }
+
+    public initialize(options: RendererOptions): void {
+        this.cellWidthScaled = options.cellWidth * this.scale;
+        this.cellHeightScaled = options.cellHeight * this.scale;
+
+        this.displayCanvas.width = options.viewportWidth * this.cellWidthScaled;
+        this.displayCanvas.height = options.viewportHeight * this.cellHeightScaled;
+
+        this.displayCanvas.style.width = `${options.viewportWidth * options.cellWidth}px`;
+        this.displayCanvas.style.height = `${options.viewportHeight * options.cellHeight}px`;
+
+        this.invalidateRegion = options.invalidateRegion;
+
+        const fontFamily = options.customFont || options.defaultFont || 'monospace';
+        const fontSize = Math.floor(this.cellHeightScaled * 0.8);
+        this.font = `normal normal ${fontSize}px ${fontFamily}`;
+
+        this.setupContext(this.displayCtx);
+
+        this.unbounded = options.unbounded ?? false;
+        this.worldSize = { width: options.worldWidth, height: options.worldHeight };
+        this.layers.clear();
+        this.addLayer(DEFAULT_LAYER);
+
+        this.glyphAtlas = new GlyphAtlas(this.cellWidthScaled, this.cellHeightScaled, this.scale);
+    }
+
+    // All contexts work in device pixels, so no scale transform is applied here
+    private setupContext(ctx: CanvasRenderingContext2D) {
+        ctx.imageSmoothingEnabled = false;
+        ctx.font = this.font;
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fontKerning = 'none';
+        ctx.textRendering = 'geometricPrecision';
+    }
+
+    public beginFrame(viewport: Viewport, layers?: LayerPresentation[]): void {
+        const now = performance.now();
+        for (const { id, viewport: layerViewport } of layers ?? [this.getDefaultPresentation(viewport)]) {
+            const buffer = this.layers.get(id);
+            if (!buffer) continue;
+
+            const created = buffer.ensureChunksInRect(
+                Math.floor(layerViewport.x),
+                Math.floor(layerViewport.y),
+                Math.ceil(layerViewport.width) + 1,
+                Math.ceil(layerViewport.height) + 1,
+                now
+            );
+
+            // Fresh chunks are blank, so ask the display to redraw what's in them
+            created.forEach(chunk => {
+                const rect = buffer.getChunkRect(chunk);
+                this.invalidateRegion?.(rect.x, rect.y, rect.width, rect.height, id);
+            });
+        }
+
+        this.layers.forEach(buffer => buffer.evict(now, this.chunkEvictionTime));
+    }
+
+    public addLayer(id: string): void {
+        if (this.layers.has(id)) return;
+
+        this.layers.set(id, new ChunkedCanvas(
+            this.cellWidthScaled,
+            this.cellHeightScaled,
+            this.chunkSize,
+            this.unbounded ? null : this.worldSize,
+            ctx => this.setupContext(ctx)
+        ));
+    }
+
+    public removeLayer(id: string): void {
+        this.layers.get(id)?.clear();
+        this.layers.delete(id);
+    }
+
+    public clearCell(x: number, y: number, layer: string = DEFAULT_LAYER): void {
+        this.clearRect({ x, y, width: 1, height: 1 }, layer);
+    }
+
+    public clearRect(rect: Rect, layer: string = DEFAULT_LAYER): void {
+        const buffer = this.layers.get(layer);
+        if (!buffer) return;
+
+        buffer.getChunksInRect(rect.x, rect.y, rect.width, rect.height).forEach(chunk => {
+            // Filling with a transparent color would blend over the old pixels and leave them as they were
+            chunk.ctx.clearRect(
+                rect.x * this.cellWidthScaled - chunk.originX,
+                rect.y * this.cellHeightScaled - chunk.originY,
+                rect.width * this.cellWidthScaled,
+                rect.height * this.cellHeightScaled
+            );
+        });
+    }
+
+    public drawTile(tile: Tile): void {
+        // Unclipped tiles can spill into neighbouring cells, and those may sit in another chunk
+        const margin = tile.noClip ? 1 : 0;
+        const minX = Math.floor(tile.x) - margin;
+        const minY = Math.floor(tile.y) - margin;
+        const maxX = Math.ceil(tile.x + 1) + margin;
+        const maxY = Math.ceil(tile.y + 1) + margin;
+
+        this.layers.get(tile.layer ?? DEFAULT_LAYER)?.getChunksInRect(minX, minY, maxX - minX, maxY - minY)
+            .forEach(chunk => this.drawTileInChunk(tile, chunk));
+    }
+
+    private drawTileInChunk(tile: Tile, chunk: CanvasChunk): void {
+        const ctx = chunk.ctx;
+        const pixelX = tile.x * this.cellWidthScaled - chunk.originX;
+        const pixelY = tile.y * this.cellHeightScaled - chunk.originY;
+
+        ctx.save();
+
+        ctx.translate(pixelX, pixelY);
+
+        // Set blend mode if not default
+        if (tile.blendMode !== BlendMode.SourceOver) {
+            ctx.globalCompositeOperation = tile.blendMode;
+        }
+
+        if (!tile.noClip) {
+            ctx.beginPath();
+            ctx.rect(0, 0, this.cellWidthScaled, this.cellHeightScaled);
+            ctx.clip();
+        }
+
+        const cellWidth = this.cellWidthScaled;
+        const cellHeight = this.cellHeightScaled;
+
+        // Rotate from center if needed
+        if (tile.rotation) {
+            ctx.save();
+            ctx.translate(cellWidth/2, cellHeight/2);
+            ctx.rotate(tile.rotation);
+            ctx.translate(-cellWidth/2, -cellHeight/2);
+            ctx.restore();
+        }
+
+        // logger.debug(`Rendering tile ${tile.id} with background color ${tile.backgroundColor}`);
+
+        if (tile.backgroundColor && tile.backgroundColor !== '#00000000') {
+            const bgPercent = tile.bgPercent ?? 1;
+            if (bgPercent > 0) {
+                ctx.fillStyle = tile.backgroundColor;
+
+                switch (tile.fillDirection) {
+                    case FillDirection.TOP:
+                        ctx.fillRect(
+                            0,
+                            0,
+                            cellWidth,
+                            cellHeight * bgPercent
+                        );
+                        break;
+                    case FillDirection.RIGHT:
+                        ctx.fillRect(
+                            0 + cellWidth * (1 - bgPercent),
+                            0,
+                            cellWidth * bgPercent,
+                            cellHeight
+                        );
+                        break;
+                    case FillDirection.BOTTOM:
+                        ctx.fillRect(
+                            0,
+                            0 + cellHeight * (1 - bgPercent),
+                            cellWidth,
+                            cellHeight * bgPercent
+                        );
+                        break;
+                    case FillDirection.LEFT:
+                        ctx.fillRect(
+                            0,
+                            0,
+                            cellWidth * bgPercent,
+                            cellHeight
+                        );
+                        break;
+                }
+            }
+        }
+
+        if (tile.char && tile.color) {
+            const offsetX = (tile.offsetSymbolX || 0) * this.cellWidthScaled;
+            const offsetY = (tile.offsetSymbolY || 0) * this.cellHeightScaled;
+
+            // Untransformed glyphs are copied from the atlas. Scaled or rotated ones
+            // still go through fillText, since resampling the cached bitmap looks blocky.
+            if (this.useGlyphAtlas && !tile.rotation &&
+                tile.scaleSymbolX === 1 && tile.scaleSymbolY === 1) {
+                this.glyphAtlas.drawGlyph(
+                    ctx,
+                    tile.char,
+                    tile.color,
+                    this.font,
+                    this.cellWidthScaled/2 + offsetX,
+                    this.cellHeightScaled * 0.55 + offsetY
+                );
+                ctx.restore();
+                return;
+            }
+
+            ctx.save();
+
+            // Move to center of cell
+            ctx.translate(this.cellWidthScaled/2, this.cellHeightScaled * 0.55);
+
+            // Apply rotation if any
+            if (tile.rotation) {
+                ctx.rotate(tile.rotation);
+            }
+
+            // Apply scale
+            ctx.scale(tile.scaleSymbolX, tile.scaleSymbolY);
+
+            // Apply offset
+            ctx.translate(offsetX, offsetY);
+
+            ctx.fillStyle = tile.color;
+            ctx.fillText(tile.char, 0, 0);
+
+            ctx.restore();
+        }
+
+        ctx.restore();
+    }
+
+    public present(viewport: Viewport, dirtyRects?: Rect[], screen?: Rect, layers?: LayerPresentation[]): void {
+        const target = screen ? {
+            x: Math.round(screen.x * this.scale),
+            y: Math.round(screen.y * this.scale),
+            width: Math.round(screen.width * this.scale),
+            height: Math.round(screen.height * this.scale)
+        } : { x: 0, y: 0, width: this.displayCanvas.width, height: this.displayCanvas.height };
+
+        const base = this.getPresentView(viewport, target);
+        const shown = (layers ?? [this.getDefaultPresentation(viewport)])
+            .filter(layer => this.layers.has(layer.id))
+            .map(layer => ({ layer, view: this.getPresentView(layer.viewport, target) }));
+
+        // Nearest-neighbour keeps zoomed-in glyphs crisp, but zoomed out it drops whole rows
+        this.displayCtx.imageSmoothingEnabled = base.scaleX < 1 || base.scaleY < 1;
+
+        if (!dirtyRects) {
+            this.displayCtx.clearRect(target.x, target.y, target.width, target.height);
+            shown.forEach(({ layer, view }) => this.compositeLayer(layer, view, target));
+            return;
+        }
+
+        // Same viewport as last time, so only the cells that changed need copying
+        for (const rect of dirtyRects) {
+            const left = Math.max(target.x, base.targetX + (rect.x * this.cellWidthScaled - base.left) * base.scaleX);
+            const top = Math.max(target.y, base.targetY + (rect.y * this.cellHeightScaled - base.top) * base.scaleY);
+            const right = Math.min(target.x + target.width,
+                base.targetX + ((rect.x + rect.width) * this.cellWidthScaled - base.left) * base.scaleX);
+            const bottom = Math.min(target.y + target.height,
+                base.targetY + ((rect.y + rect.height) * this.cellHeightScaled - base.top) * base.scaleY);
+            if (right <= left || bottom <= top) continue;
+
+            const output = { x: left, y: top, width: right - left, height: bottom - top };
+            this.displayCtx.clearRect(output.x, output.y, output.width, output.height);
+            shown.forEach(({ layer, view }) => this.compositeLayer(layer, view, output));
+        }
+    }
+
+    private getDefaultPresentation(viewport: Viewport): LayerPresentation {
+        return { id: DEFAULT_LAYER, viewport, opacity: 1, blendMode: BlendMode.SourceOver };
+    }
+
+    // Map a layer viewport onto a target rectangle of the display canvas
+    private getPresentView(viewport: Viewport, target: Rect): PresentView {
+        // Fractional viewports land on whole device pixels, copying from in-between
+        // positions resamples the chunks and makes the whole view shimmer
+        const left = Math.round(viewport.x * this.cellWidthScaled);
+        const top = Math.round(viewport.y * this.cellHeightScaled);
+
+        // Zoomed viewports cover more or fewer cells than fit the target, so stretch them
+        return {
+            left,
+            top,
+            targetX: target.x,
+            targetY: target.y,
+            scaleX: target.width / (viewport.width * this.cellWidthScaled),
+            scaleY: target.height / (viewport.height * this.cellHeightScaled)
+        };
+    }
+
+    // Draw the part of a layer that lands in an output rectangle, in display canvas pixels
+    private compositeLayer(layer: LayerPresentation, view: PresentView, output: Rect): void {
+        if (layer.opacity <= 0) return;
+
+        const left = view.left + (output.x - view.targetX) / view.scaleX;
+        const top = view.top + (output.y - view.targetY) / view.scaleY;
+        const right = left + output.width / view.scaleX;
+        const bottom = top + output.height / view.scaleY;
+
+        this.displayCtx.globalAlpha = layer.opacity;
+        this.displayCtx.globalCompositeOperation = layer.blendMode;
+        this.copyRegion(this.layers.get(layer.id)!, left, top, right, bottom, view);
+        this.displayCtx.globalAlpha = 1;
+        this.displayCtx.globalCompositeOperation = BlendMode.SourceOver;
+    }
+
+    // Copy a layer-space pixel rectangle from the chunks onto the display canvas
+    private copyRegion(
+        buffer: ChunkedCanvas,
+        left: number, top: number, right: number, bottom: number,
+        view: PresentView
+    ): void {
+        const chunks = buffer.getChunksInRect(
+            Math.floor(left / this.cellWidthScaled),
+            Math.floor(top / this.cellHeightScaled),
+            Math.ceil((right - left) / this.cellWidthScaled) + 1,
+            Math.ceil((bottom - top) / this.cellHeightScaled) + 1
+        );
+        for (const chunk of chunks) {
+            const sourceLeft = Math.max(left, chunk.originX);
+            const sourceTop = Math.max(top, chunk.originY);
+            const sourceRight = Math.min(right, chunk.originX + chunk.canvas.width);
+            const sourceBottom = Math.min(bottom, chunk.originY + chunk.canvas.height);
+            if (sourceRight <= sourceLeft || sourceBottom <= sourceTop) continue;
+
+            const width = sourceRight - sourceLeft;
+            const height = sourceBottom - sourceTop;
+            this.displayCtx.drawImage(
+                chunk.canvas,
+                sourceLeft - chunk.originX, sourceTop - chunk.originY, width, height,
+                view.targetX + (sourceLeft - view.left) * view.scaleX,
+                view.targetY + (sourceTop - view.top) * view.scaleY,
+                width * view.scaleX, height * view.scaleY
+            );
+        }
+    }
+
+    public clear(): void {
+        this.displayCtx.clearRect(0, 0, this.displayCanvas.width, this.displayCanvas.height);
+        this.layers.forEach(buffer => buffer.clear());
+    }
+
+    public getElement(): HTMLElement {
+        return this.displayCanvas;
+    }
+
+    public toggleGlyphAtlas(): boolean {
+        this.useGlyphAtlas = !this.useGlyphAtlas;
+        return this.useGlyphAtlas;
+    }
+
+    public getDebugString(): string {
+        const chunkCount = Array.from(this.layers.values()).reduce((total, buffer) => total + buffer.size, 0);
+        const chunks = `World Chunks: ${chunkCount} in ${this.layers.size} layers (${this.chunkSize}x${this.chunkSize} cells)`;
+        if (!this.useGlyphAtlas) {
+            return `${chunks}
+Glyph Atlas: OFF`;
+        }
+
+        const stats = this.glyphAtlas.getStats();
+        const lookups = stats.hits + stats.misses;
+        const hitRate = lookups > 0 ? (stats.hits / lookups) * 100 : 0;
+        return `${chunks}
+Glyph Atlas: ${stats.size}/${stats.capacity} glyphs (hit rate: ${hitRate.toFixed(1)}%, evictions: ${stats.evictions})`;
+    }
+}
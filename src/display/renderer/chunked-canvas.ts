@@ -0,0 +1,154 @@
+export interface CanvasChunk {
+    cx: number;             // Chunk coordinates
+    cy: number;
+    originX: number;        // Position of the chunk's top-left corner in device pixels
+    originY: number;
+    canvas: HTMLCanvasElement;
+    ctx: CanvasRenderingContext2D;
+    lastVisible: number;    // performance.now() when the chunk was last in view
+}
+
+export interface ChunkBounds {
+    width: number;          // World size in cells
+    height: number;
+}
+
+/**
+ * World buffer split into fixed-size chunk canvases, so large worlds don't run into
+ * browser canvas size limits. Chunks only exist while they are in (or were recently
+ * in) view; drawing into a cell whose chunk doesn't exist is a no-op, and the owner
+ * is expected to redraw a chunk's cells when it gets created.
+ *
+ * Without bounds the chunk grid extends in every direction, including negative
+ * coordinates.
+ */
+export class ChunkedCanvas {
+    private chunks: Map<string, CanvasChunk> = new Map();
+
+    constructor(
+        private readonly cellWidth: number,     // Device pixels
+        private readonly cellHeight: number,
+        private readonly chunkSize: number,     // Cells per chunk side
+        private readonly bounds: ChunkBounds | null,   // null for an unbounded world
+        private readonly setupContext: (ctx: CanvasRenderingContext2D) => void
+    ) {}
+
+    /**
+     * Existing chunks that overlap the given cell rectangle.
+     */
+    public getChunksInRect(x: number, y: number, width: number, height: number): CanvasChunk[] {
+        const chunks: CanvasChunk[] = [];
+        this.forEachChunkCoord(x, y, width, height, (cx, cy) => {
+            const chunk = this.chunks.get(`${cx},${cy}`);
+            if (chunk) {
+                chunks.push(chunk);
+            }
+        });
+        return chunks;
+    }
+
+    /**
+     * Create any missing chunks overlapping the cell rectangle and mark them all as
+     * visible at `now`. Returns only the chunks that were newly created.
+     */
+    public ensureChunksInRect(x: number, y: number, width: number, height: number, now: number): CanvasChunk[] {
+        const created: CanvasChunk[] = [];
+        this.forEachChunkCoord(x, y, width, height, (cx, cy) => {
+            const key = `${cx},${cy}`;
+            let chunk = this.chunks.get(key);
+            if (!chunk) {
+                chunk = this.createChunk(cx, cy);
+                this.chunks.set(key, chunk);
+                created.push(chunk);
+            }
+            chunk.lastVisible = now;
+        });
+        return created;
+    }
+
+    // Drop chunks that have been out of view for longer than maxAge milliseconds.
+    public evict(now: number, maxAge: number): number {
+        let evicted = 0;
+        for (const [key, chunk] of this.chunks) {
+            if (now - chunk.lastVisible > maxAge) {
+                // Release the backing store right away rather than waiting for GC
+                chunk.canvas.width = 0;
+                chunk.canvas.height = 0;
+                this.chunks.delete(key);
+                evicted++;
+            }
+        }
+        return evicted;
+    }
+
+    public clear(): void {
+        for (const chunk of this.chunks.values()) {
+            chunk.ctx.clearRect(0, 0, chunk.canvas.width, chunk.canvas.height);
+        }
+    }
+
+    // Cell rectangle covered by a chunk
+    public getChunkRect(chunk: CanvasChunk): { x: number, y: number, width: number, height: number } {
+        return {
+            x: chunk.cx * this.chunkSize,
+            y: chunk.cy * this.chunkSize,
+            width: chunk.canvas.width / this.cellWidth,
+            height: chunk.canvas.height / this.cellHeight
+        };
+    }
+
+    public get size(): number {
+        return this.chunks.size;
+    }
+
+    private forEachChunkCoord(
+        x: number, y: number, width: number, height: number,
+        callback: (cx: number, cy: number) => void
+    ): void {
+        let minX = x;
+        let minY = y;
+        let maxX = x + width;
+        let maxY = y + height;
+        if (this.bounds) {
+            minX = Math.max(0, minX);
+            minY = Math.max(0, minY);
+            maxX = Math.min(this.bounds.width, maxX);
+            maxY = Math.min(this.bounds.height, maxY);
+        }
+        if (maxX <= minX || maxY <= minY) return;
+
+        const startCX = Math.floor(minX / this.chunkSize);
+        const startCY = Math.floor(minY / this.chunkSize);
+        const endCX = Math.ceil(maxX / this.chunkSize);
+        const endCY = Math.ceil(maxY / this.chunkSize);
+        for (let cy = startCY; cy < endCY; cy++) {
+            for (let cx = startCX; cx < endCX; cx++) {
+                callback(cx, cy);
+            }
+        }
+    }
+
+    private createChunk(cx: number, cy: number): CanvasChunk {
+        // Chunks on the far edges only cover what's left of the world
+        const widthInCells = this.bounds ?
+            Math.min(this.chunkSize, this.bounds.width - cx * this.chunkSize) : this.chunkSize;
+        const heightInCells = this.bounds ?
+            Math.min(this.chunkSize, this.bounds.height - cy * this.chunkSize) : this.chunkSize;
+
+        const canvas = document.createElement('canvas');
+        canvas.width = widthInCells * this.cellWidth;
+        canvas.height = heightInCells * this.cellHeight;
+        const ctx = canvas.getContext('2d')!;
+        this.setupContext(ctx);
+
+        return {
+            cx,
+            cy,
+            originX: cx * this.chunkSize * this.cellWidth,
+            originY: cy * this.chunkSize * this.cellHeight,
+            canvas,
+            ctx,
+            lastVisible: 0
+        };
+    }
+}
@@ -0,0 +1,141 @@
+import { Color } from "../types";
+
+interface GlyphSlot {
+    sx: number;
+    sy: number;
+}
+
+export interface GlyphAtlasStats {
+    size: number;
+    capacity: number;
+    hits: number;
+    misses: number;
+    evictions: number;
+}
+
+/**
+ * Cache of pre-rendered glyphs. Each (char, color, font, scale) combination is drawn
+ * once into a slot on a shared canvas and afterwards copied with drawImage instead
+ * of going through fillText.
+ *
+ * The atlas works in device pixels, same as the world canvas, so glyphs are copied
+ * 1:1 and stay crisp on high-DPI screens. Slots are recycled in least-recently-used
+ * order once the atlas is full.
+ */
+export class GlyphAtlas {
+    private canvas: HTMLCanvasElement;
+    private ctx: CanvasRenderingContext2D;
+
+    // Map iteration order doubles as LRU order: oldest entry first.
+    private slots: Map<string, GlyphSlot> = new Map();
+    private readonly columns: number;
+    private readonly slotWidth: number;
+    private readonly slotHeight: number;
+
+    // Glyphs can spill outside their cell, so each slot has half a cell of padding on every side.
+    private readonly padX: number;
+    private readonly padY: number;
+
+    private hits: number = 0;
+    private misses: number = 0;
+    private evictions: number = 0;
+
+    constructor(
+        private readonly cellWidth: number,
+        private readonly cellHeight: number,
+        private readonly scale: number,
+        private readonly capacity: number = 1024
+    ) {
+        this.padX = Math.ceil(cellWidth / 2);
+        this.padY = Math.ceil(cellHeight / 2);
+        this.slotWidth = cellWidth + this.padX * 2;
+        this.slotHeight = cellHeight + this.padY * 2;
+        this.columns = Math.ceil(Math.sqrt(capacity));
+
+        this.canvas = document.createElement('canvas');
+        this.canvas.width = this.columns * this.slotWidth;
+        this.canvas.height = Math.ceil(capacity / this.columns) * this.slotHeight;
+        this.ctx = this.canvas.getContext('2d')!;
+        this.ctx.textAlign = 'center';
+        this.ctx.textBaseline = 'middle';
+        this.ctx.fontKerning = 'none';
+        this.ctx.textRendering = 'geometricPrecision';
+    }
+
+    /**
+     * Copy a glyph onto the target context, with the glyph's anchor point at (x, y).
+     * The anchor is the same point fillText would be called with.
+     */
+    public drawGlyph(
+        target: CanvasRenderingContext2D,
+        char: string,
+        color: Color,
+        font: string,
+        x: number,
+        y: number
+    ): void {
+        const slot = this.getSlot(char, color, font);
+        const anchorX = this.padX + this.cellWidth / 2;
+        const anchorY = this.padY + this.cellHeight * 0.55;
+
+        target.drawImage(
+            this.canvas,
+            slot.sx, slot.sy, this.slotWidth, this.slotHeight,
+            x - anchorX, y - anchorY, this.slotWidth, this.slotHeight
+        );
+    }
+
+    public clear(): void {
+        this.slots.clear();
+        this.ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
+    }
+
+    public getStats(): GlyphAtlasStats {
+        return {
+            size: this.slots.size,
+            capacity: this.capacity,
+            hits: this.hits,
+            misses: this.misses,
+            evictions: this.evictions
+        };
+    }
+
+    private getSlot(char: string, color: Color, font: string): GlyphSlot {
+        const key = `${char}|${color}|${font}|${this.scale}`;
+        const existing = this.slots.get(key);
+        if (existing) {
+            this.hits++;
+            // Re-insert to mark as most recently used
+            this.slots.delete(key);
+            this.slots.set(key, existing);
+            return existing;
+        }
+
+        this.misses++;
+        let slot: GlyphSlot;
+        if (this.slots.size < this.capacity) {
+            const index = this.slots.size;
+            slot = {
+                sx: (index % this.columns) * this.slotWidth,
+                sy: Math.floor(index / this.columns) * this.slotHeight
+            };
+        } else {
+            const [oldestKey, oldestSlot] = this.slots.entries().next().value!;
+            this.slots.delete(oldestKey);
+            this.evictions++;
+            slot = oldestSlot;
+        }
+
+        this.ctx.clearRect(slot.sx, slot.sy, this.slotWidth, this.slotHeight);
+        this.ctx.font = font;
+        this.ctx.fillStyle = color;
+        this.ctx.fillText(
+            char,
+            slot.sx + this.padX + this.cellWidth / 2,
+            slot.sy + this.padY + this.cellHeight * 0.55
+        );
+
+        this.slots.set(key, slot);
+        return slot;
+    }
+}
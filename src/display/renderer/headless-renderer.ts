@@ -0,0 +1,32 @@
+import { Rect, Tile, Viewport } from '../types';
+import { Renderer, RendererOptions } from './renderer';
+
+/**
+ * Renderer that draws nothing. Lets a Display run its tile model and animations
+ * where there is no canvas, e.g. game logic tests under node.
+ */
+export class HeadlessRenderer implements Renderer {
+    private tilesDrawn: number = 0;
+    private framesPresented: number = 0;
+
+    public initialize(_options: RendererOptions): void {}
+
+    public clearCell(_x: number, _y: number): void {}
+
+    public drawTile(_tile: Tile): void {
+        this.tilesDrawn++;
+    }
+
+    public present(_viewport: Viewport, _dirtyRects?: Rect[], screen?: Rect): void {
+        // Extra views are presented in the same frame as the main one
+        if (!screen) {
+            this.framesPresented++;
+        }
+    }
+
+    public clear(): void {}
+
+    public getDebugString(): string {
+        return `Headless: ${this.framesPresented} frames, ${this.tilesDrawn} tiles drawn`;
+    }
+}
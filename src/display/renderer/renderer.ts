@@ -0,0 +1,56 @@
+import { BlendMode, Rect, Tile, Viewport } from '../types';
+
+export interface RendererOptions {
+    worldWidth: number;
+    worldHeight: number;
+    unbounded?: boolean;    // Tiles may sit at any integer cell, world size is only a hint
+    viewportWidth: number;
+    viewportHeight: number;
+    cellWidth: number;      // CSS pixels
+    cellHeight: number;     // CSS pixels
+    defaultFont?: string;
+    customFont?: string;
+    // Ask the display to redraw every tile in a cell rectangle on the next update,
+    // e.g. after the renderer dropped or recreated part of its buffer. No layer means all of them.
+    invalidateRegion?: (x: number, y: number, width: number, height: number, layer?: string) => void;
+}
+
+// How to show one layer's buffer when presenting
+export interface LayerPresentation {
+    id: string;
+    viewport: Viewport;     // Part of the layer to stretch over the output, in the layer's cells
+    opacity: number;
+    blendMode: BlendMode;
+}
+
+/**
+ * Drawing backend for a Display.
+ *
+ * The Display owns the tile model and all animation state. Each frame it clears the
+ * cells that changed, draws every tile in them bottom to top, then presents each view,
+ * the main one first. Coordinates are in cells and may be fractional for tiles that
+ * are mid-move.
+ */
+export interface Renderer {
+    initialize(options: RendererOptions): void;
+    // Runs before anything is drawn, so the renderer can invalidate regions it needs drawn this frame
+    beginFrame?(viewport: Viewport, layers?: LayerPresentation[]): void;
+    // Renderers with these keep a buffer per layer: clears name the layer and drawTile goes
+    // by tile.layer. Without them every visible layer is flattened into one buffer.
+    addLayer?(id: string): void;
+    removeLayer?(id: string): void;
+    clearCell(x: number, y: number, layer?: string): void;
+    // Used instead of clearCell when present, with the changed cells coalesced into rectangles
+    clearRect?(rect: Rect, layer?: string): void;
+    drawTile(tile: Tile): void;
+    // The viewport can differ in size from viewportWidth/Height while zoomed; renderers that can
+    // scale stretch it over their output. dirtyRects, in the viewport's cells, come only when the
+    // viewport hasn't moved since the last present, and none means present everything. screen is
+    // in CSS pixels, default the whole output. layers are composited bottom to top; none means
+    // just the default layer, showing the viewport.
+    present(viewport: Viewport, dirtyRects?: Rect[], screen?: Rect, layers?: LayerPresentation[]): void;
+    clear(): void;
+    getElement?(): HTMLElement;     // What's shown on the page, for pointer input
+    toggleGlyphAtlas?(): boolean;   // Switch glyph drawing paths, returning whether the atlas is now used
+    getDebugString?(): string;
+}
@@ -0,0 +1,134 @@
+import { Color, Rect, Tile, Viewport } from '../types';
+import { Renderer, RendererOptions } from './renderer';
+
+export interface TextRendererOptions {
+    emptyChar?: string;     // Character for cells with no tiles (default ' ')
+}
+
+interface TextCell {
+    char: string;
+    foreground: Color | null;
+    background: Color | null;
+}
+
+/**
+ * Headless renderer that keeps a plain character grid of the world, plus parallel
+ * grids of foreground and background colors. Intended for snapshot tests. Only
+ * cells that have been drawn are stored, so it also works for unbounded worlds.
+ *
+ * Each cell shows the char and foreground color of its topmost tile by zIndex, and
+ * the background of the topmost tile with a visible background. Tiles at fractional
+ * positions land in the cell their top-left corner is in.
+ */
+export class TextRenderer implements Renderer {
+    private readonly emptyChar: string;
+    private width: number = 0;
+    private height: number = 0;
+    private unbounded: boolean = false;
+    private cells: Map<string, TextCell> = new Map();
+    private viewport: Viewport = { x: 0, y: 0, width: 0, height: 0 };
+
+    constructor(options: TextRendererOptions = {}) {
+        this.emptyChar = options.emptyChar ?? ' ';
+    }
+
+    public initialize(options: RendererOptions): void {
+        this.width = options.worldWidth;
+        this.height = options.worldHeight;
+        this.unbounded = options.unbounded ?? false;
+        this.viewport = {
+            x: 0,
+            y: 0,
+            width: options.viewportWidth,
+            height: options.viewportHeight
+        };
+        this.clear();
+    }
+
+    public clearCell(x: number, y: number): void {
+        this.cells.delete(`${Math.floor(x)},${Math.floor(y)}`);
+    }
+
+    public drawTile(tile: Tile): void {
+        const cellX = Math.floor(tile.x);
+        const cellY = Math.floor(tile.y);
+        if (!this.inBounds(cellX, cellY)) return;
+
+        const key = `${cellX},${cellY}`;
+        let cell = this.cells.get(key);
+        if (!cell) {
+            cell = { char: this.emptyChar, foreground: null, background: null };
+            this.cells.set(key, cell);
+        }
+
+        // Tiles arrive lowest zIndex first, so later tiles overwrite earlier ones.
+        cell.char = tile.char || this.emptyChar;
+        cell.foreground = tile.char ? tile.color : null;
+
+        if (tile.backgroundColor && tile.backgroundColor !== '#00000000' && tile.bgPercent > 0) {
+            cell.background = tile.backgroundColor;
+        }
+    }
+
+    // Only the main view is kept, extra views have nowhere to go in a text grid
+    public present(viewport: Viewport, _dirtyRects?: Rect[], screen?: Rect): void {
+        if (screen) return;
+        this.viewport = { ...viewport };
+    }
+
+    public clear(): void {
+        this.cells.clear();
+    }
+
+    /**
+     * Character rows of the last presented viewport, or of the whole world. In an
+     * unbounded world, 'world' means the (0,0)-(worldWidth,worldHeight) rectangle.
+     */
+    public getLines(region: 'viewport' | 'world' = 'viewport'): string[] {
+        return this.crop(cell => cell?.char ?? this.emptyChar, region).map(row => row.join(''));
+    }
+
+    public getForegroundGrid(region: 'viewport' | 'world' = 'viewport'): (Color | null)[][] {
+        return this.crop(cell => cell?.foreground ?? null, region);
+    }
+
+    public getBackgroundGrid(region: 'viewport' | 'world' = 'viewport'): (Color | null)[][] {
+        return this.crop(cell => cell?.background ?? null, region);
+    }
+
+    public toString(): string {
+        return this.getLines().join('\n');
+    }
+
+    private crop<T>(read: (cell: TextCell | undefined) => T, region: 'viewport' | 'world'): T[][] {
+        let startX = 0;
+        let startY = 0;
+        let width = this.width;
+        let height = this.height;
+        if (region === 'viewport') {
+            startX = Math.floor(this.viewport.x);
+            startY = Math.floor(this.viewport.y);
+            width = this.viewport.width;
+            height = this.viewport.height;
+            if (!this.unbounded) {
+                // Keep the old slicing behaviour: nothing past the world edge
+                width = Math.max(0, Math.min(width, this.width - startX));
+                height = Math.max(0, Math.min(height, this.height - startY));
+            }
+        }
+
+        const grid: T[][] = [];
+        for (let y = startY; y < startY + height; y++) {
+            const row: T[] = [];
+            for (let x = startX; x < startX + width; x++) {
+                row.push(read(this.cells.get(`${x},${y}`)));
+            }
+            grid.push(row);
+        }
+        return grid;
+    }
+
+    private inBounds(x: number, y: number): boolean {
+        return this.unbounded || (x >= 0 && x < this.width && y >= 0 && y < this.height);
+    }
+}
@@ -69,4 +69,8 @@ export abstract class BaseTest {
     public toggleDirtyMask(): boolean {
         return this.display.toggleDirtyMask();
     }
+
+    public toggleGlyphAtlas(): boolean {
+        return this.display.toggleGlyphAtlas();
+    }
 } 
\ No newline at end of file
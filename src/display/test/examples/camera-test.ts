@@ -0,0 +1,135 @@
+import { BaseTest } from './base-test';
+import { TileId } from '../../types';
+import { Easing } from '../../display';
+
+export class CameraTest extends BaseTest {
+    private readonly STEP_INTERVAL = 250;
+    private readonly ZOOM_INTERVAL = 5000;
+    private readonly BACKGROUND_SYMBOLS = ['.', ',', '`', ' '];
+    private backgroundTileIds: TileId[] = [];
+    private playerId: TileId | null = null;
+    private lastStep = 0;
+    private lastZoom = 0;
+    private direction = { x: 1, y: 0 };
+
+    constructor() {
+        super({
+            worldWidth: 120,
+            worldHeight: 60,
+            viewportWidth: 40,
+            viewportHeight: 20,
+            cellWidth: 12,
+            cellHeight: 24,
+            camera: {
+                smoothing: 'spring',
+                stiffness: 40,
+                deadZone: { width: 6, height: 4 }
+            }
+        });
+    }
+
+    getName(): string {
+        return "camera";
+    }
+
+    getDescription(): string {
+        return "Follows a wandering tile with a spring camera and fractional viewport positions, zooming out to an overview now and then, with a minimap view";
+    }
+
+    private initializeBackground() {
+        const width = this.display.getWorldWidth();
+        const height = this.display.getWorldHeight();
+
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                // Checkerboard of 10x10 blocks, so camera motion is easy to see
+                const shade = (Math.floor(x / 10) + Math.floor(y / 10)) % 2 === 0 ? '#101820FF' : '#182028FF';
+                this.backgroundTileIds.push(this.display.createTile(
+                    x,
+                    y,
+                    this.BACKGROUND_SYMBOLS[(x * 7 + y * 13) % this.BACKGROUND_SYMBOLS.length],
+                    '#445566FF',
+                    shade,
+                    1
+                ));
+            }
+        }
+    }
+
+    private step(timestamp: number) {
+        if (!this.isRunning || !this.playerId) return;
+
+        if (timestamp - this.lastZoom >= this.ZOOM_INTERVAL) {
+            this.lastZoom = timestamp;
+            const tile = this.display.getTile(this.playerId);
+            this.display.setZoom(this.display.getZoom() < 1 ? 1 : 0.4, {
+                anchorX: tile ? tile.x + 0.5 : undefined,
+                anchorY: tile ? tile.y + 0.5 : undefined,
+                duration: 1,
+                easing: Easing.cubicInOut
+            });
+        }
+
+        if (timestamp - this.lastStep >= this.STEP_INTERVAL) {
+            this.lastStep = timestamp;
+            const tile = this.display.getTile(this.playerId);
+            if (tile) {
+                // Mostly keep going, sometimes turn
+                if (Math.random() < 0.2) {
+                    const directions = [{ x: 1, y: 0 }, { x: -1, y: 0 }, { x: 0, y: 1 }, { x: 0, y: -1 }];
+                    this.direction = directions[Math.floor(Math.random() * directions.length)];
+                }
+
+                const startX = Math.round(tile.x);
+                const startY = Math.round(tile.y);
+                let endX = startX + this.direction.x;
+                let endY = startY + this.direction.y;
+                if (endX < 0 || endX >= this.display.getWorldWidth() ||
+                    endY < 0 || endY >= this.display.getWorldHeight()) {
+                    this.direction = { x: -this.direction.x, y: -this.direction.y };
+                    endX = startX + this.direction.x;
+                    endY = startY + this.direction.y;
+                }
+
+                const duration = this.STEP_INTERVAL / 1000;
+                this.display.addValueAnimation(this.playerId, {
+                    x: { start: startX, end: endX, duration, easing: Easing.sineInOut, loop: false },
+                    y: { start: startY, end: endY, duration, easing: Easing.sineInOut, loop: false }
+                });
+            }
+        }
+
+        requestAnimationFrame(t => this.step(t));
+    }
+
+    protected run(): void {
+        this.initializeBackground();
+        this.playerId = this.display.createTile(60, 30, '@', '#FFFF00FF', '#00000000', 5);
+        this.display.getCamera().follow(this.playerId, true);
+
+        // Picture-in-picture overview in the bottom right corner
+        const canvasWidth = this.options.viewportWidth * this.options.cellWidth;
+        const canvasHeight = this.options.viewportHeight * this.options.cellHeight;
+        const minimap = this.display.addView('minimap', {
+            screen: { x: canvasWidth - 144, y: canvasHeight - 96, width: 144, height: 96 },
+            zoom: 0.2,
+            camera: { smoothing: 'none' }
+        });
+        minimap?.getCamera().follow(this.playerId);
+
+        this.lastZoom = performance.now();
+        requestAnimationFrame(t => this.step(t));
+    }
+
+    protected cleanup(): void {
+        this.display.getCamera().stopFollowing();
+        this.display.removeView('minimap');
+        this.display.setZoom(1);
+        if (this.playerId) {
+            this.display.removeTile(this.playerId);
+            this.playerId = null;
+        }
+        this.backgroundTileIds.forEach(id => this.display.removeTile(id));
+        this.backgroundTileIds = [];
+    }
+}
@@ -0,0 +1,85 @@
+import { BaseTest } from './base-test';
+import { TileId } from '../../types';
+import { logger } from '../../util/logger';
+
+export class LargeWorldTest extends BaseTest {
+    private readonly TERRAIN = [
+        { char: '.', color: '#556655FF', background: '#111811FF' },
+        { char: '"', color: '#66AA66FF', background: '#112211FF' },
+        { char: '~', color: '#6688FFFF', background: '#111833FF' },
+        { char: '^', color: '#AAAAAAFF', background: '#222222FF' }
+    ];
+    private readonly MOVE_SPEED = 2;
+    private tileIds: TileId[] = [];
+    private direction = { x: 1, y: 1 };
+    private position = { x: 0, y: 0 };
+
+    constructor() {
+        super({
+            worldWidth: 500,
+            worldHeight: 500,
+            viewportWidth: 70,
+            viewportHeight: 25,
+            cellWidth: 12,
+            cellHeight: 24
+        });
+    }
+
+    getName(): string {
+        return "large-world";
+    }
+
+    getDescription(): string {
+        return "Bounces the viewport around a 500x500 world backed by chunk canvases";
+    }
+
+    private fillWorld() {
+        const width = this.display.getWorldWidth();
+        const height = this.display.getWorldHeight();
+
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                // Smooth-ish noise so the chunks are visually distinct
+                const value = Math.sin(x * 0.05) + Math.cos(y * 0.07) + Math.sin((x + y) * 0.02);
+                const terrain = this.TERRAIN[Math.min(3, Math.max(0, Math.floor(value + 1.5)))];
+                this.tileIds.push(this.display.createTile(
+                    x,
+                    y,
+                    terrain.char,
+                    terrain.color,
+                    terrain.background,
+                    1
+                ));
+            }
+        }
+    }
+
+    private moveViewport() {
+        if (!this.isRunning) return;
+
+        const maxX = this.display.getWorldWidth() - this.display.getViewportWidth();
+        const maxY = this.display.getWorldHeight() - this.display.getViewportHeight();
+
+        this.position.x += this.direction.x * this.MOVE_SPEED;
+        this.position.y += this.direction.y * this.MOVE_SPEED;
+        if (this.position.x <= 0 || this.position.x >= maxX) this.direction.x *= -1;
+        if (this.position.y <= 0 || this.position.y >= maxY) this.direction.y *= -1;
+
+        this.display.setViewport(this.position.x, this.position.y);
+
+        requestAnimationFrame(() => this.moveViewport());
+    }
+
+    protected run(): void {
+        logger.info('Filling large world');
+        this.position = { x: 0, y: 0 };
+        this.fillWorld();
+        this.moveViewport();
+    }
+
+    protected cleanup(): void {
+        this.tileIds.forEach(id => this.display.removeTile(id));
+        this.tileIds = [];
+        this.display.setViewport(0, 0);
+    }
+}
@@ -0,0 +1,100 @@
+import { BaseTest } from './base-test';
+import { BlendMode, TileId } from '../../types';
+
+export class LayerTest extends BaseTest {
+    private readonly SPARK_COUNT = 200;
+    private readonly SPARK_SYMBOLS = ['*', '+', '·', ' '];
+    private tileIds: TileId[] = [];
+    private scroll = 0;
+
+    constructor() {
+        super({
+            worldWidth: 200,
+            worldHeight: 40,
+            viewportWidth: 50,
+            viewportHeight: 20,
+            cellWidth: 12,
+            cellHeight: 24
+        });
+    }
+
+    getName(): string {
+        return "layers";
+    }
+
+    getDescription(): string {
+        return "Parallax star layer, static terrain, a busy additive effects layer and a fixed UI layer, each with its own canvas";
+    }
+
+    private initializeLayers() {
+        const width = this.display.getWorldWidth();
+        const height = this.display.getWorldHeight();
+
+        this.display.addLayer('sky', { order: -1, parallax: 0.3 });
+        this.display.addLayer('effects', { order: 1, blendMode: BlendMode.Screen, opacity: 0.8 });
+        this.display.addLayer('ui', { order: 2, fixed: true });
+
+        // Sparse stars, far away
+        for (let i = 0; i < 300; i++) {
+            this.tileIds.push(this.display.createTile(
+                Math.floor(Math.random() * width),
+                Math.floor(Math.random() * height),
+                '.',
+                '#8899AAFF',
+                '#000000FF',
+                0,
+                { layer: 'sky' }
+            ));
+        }
+
+        // Hills along the bottom, these never change after this
+        for (let x = 0; x < width; x++) {
+            const top = height - 6 - Math.round(3 * Math.sin(x / 9) + 2 * Math.sin(x / 4));
+            for (let y = top; y < height; y++) {
+                this.tileIds.push(this.display.createTile(x, y, y === top ? '^' : '#', '#336633FF', '#112211FF', 1));
+            }
+        }
+
+        // Sparks flickering all over, redrawn every frame
+        for (let i = 0; i < this.SPARK_COUNT; i++) {
+            const id = this.display.createTile(
+                Math.floor(Math.random() * width),
+                Math.floor(Math.random() * height),
+                '*',
+                '#FF8800FF',
+                '#00000000',
+                1,
+                { layer: 'effects' }
+            );
+            this.display.addSymbolAnimation(id, this.SPARK_SYMBOLS, 0.5 + Math.random(), Math.random());
+            this.tileIds.push(id);
+        }
+
+        // Stays in the corner however far the view scrolls
+        const label = this.display.createString(1, 1, '{y}LAYERS{/} sky / terrain / effects / ui', 1);
+        label.forEach(id => this.display.setTileLayer(id, 'ui'));
+        this.tileIds.push(...label);
+    }
+
+    private step() {
+        if (!this.isRunning) return;
+
+        const maxScroll = this.display.getWorldWidth() - this.display.getViewportWidth();
+        this.scroll = (this.scroll + 0.1) % maxScroll;
+        this.display.setViewport(this.scroll, this.display.getWorldHeight() - this.display.getViewportHeight());
+
+        requestAnimationFrame(() => this.step());
+    }
+
+    protected run(): void {
+        this.initializeLayers();
+        requestAnimationFrame(() => this.step());
+    }
+
+    protected cleanup(): void {
+        this.tileIds.forEach(id => this.display.removeTile(id));
+        this.tileIds = [];
+        ['sky', 'effects', 'ui'].forEach(layer => this.display.removeLayer(layer));
+        this.display.setViewport(0, 0);
+    }
+}
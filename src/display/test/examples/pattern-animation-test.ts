@@ -36,49 +36,19 @@ export class PatternAnimationTest extends BaseTest {
 
         const startTime = performance.now() + (delay * 1000); // Convert delay to milliseconds
 
-        // Scale animation
-        this.display.addValueAnimation(smokeBomb, {
-            scaleSymbolX: {
-                start: 0.0,
-                end: 3.0,
-                duration: 0.6,
-                easing: Easing.expoInOut,
-                loop: false
-            },
-            scaleSymbolY: {
-                start: 0.0,
-                end: 3.0,
-                duration: 0.6,
-                easing: Easing.expoInOut,
-                loop: false
-            },
+        // Swell and fade in, linger, then fade out
+        this.display.addKeyframeAnimation(smokeBomb, {
+            scaleSymbolX: [{ time: 0, value: 0.0 }, { time: 0.6, value: 3.0, easing: Easing.expoInOut }],
+            scaleSymbolY: [{ time: 0, value: 0.0 }, { time: 0.6, value: 3.0, easing: Easing.expoInOut }],
+            color: [
+                { time: 0, value: '#88888800' },
+                { time: 0.6, value: '#888888FF', easing: Easing.quadOut },
+                { time: 3.6, value: '#888888DD', easing: Easing.quadOut },
+                { time: 6.6, value: '#88888800', easing: Easing.quadOut }
+            ],
             startTime
         });
 
-        // Fade in animation
-        this.display.addColorAnimation(smokeBomb, {
-            fg: {
-                start: '#88888800',
-                end: '#888888FF',
-                duration: 0.6,
-                easing: Easing.quadOut,
-                next: {
-                    start: '#888888FF',
-                    end: '#888888DD',
-                    duration: 3.0,
-                    easing: Easing.quadOut,
-
-                    next: {
-                        start: '#888888DD',
-                        end: '#88888800',
-                        duration: 3.0,
-                        easing: Easing.quadOut,
-                    }
-                }
-            },
-            startTime: startTime,
-        });
-
         // this.display.addColorAnimation(smokeBomb, {
         //     fg: {
         //         start: '#888888FF',
@@ -775,29 +745,11 @@ export class PatternAnimationTest extends BaseTest {
 
         // Drop-in effect
         const dropInId = this.display.createTile(25, 17, '●', '#FFFFFF00', '#000000FF', 1);
-        this.display.addValueAnimation(dropInId, {
-            scaleSymbolX: {
-                start: 3.0,  // Starts larger
-                end: 1.0,
-                duration: 0.8,
-                easing: Easing.bounceOut,
-                loop: true
-            },
-            scaleSymbolY: {
-                start: 3.0,  // Starts larger
-                end: 1.0,
-                duration: 0.8,
-                easing: Easing.bounceOut,
-                loop: true
-            }
-        });
-        this.display.addColorAnimation(dropInId, {
-            fg: {
-                start: '#FF00FF00',  // Starts transparent
-                end: '#FFFFFFFF',
-                duration: 0.8,  // Matches the drop duration
-                loop: true
-            }
+        this.display.addKeyframeAnimation(dropInId, {
+            scaleSymbolX: [{ time: 0, value: 3.0 }, { time: 0.8, value: 1.0, easing: Easing.bounceOut }],  // Starts larger
+            scaleSymbolY: [{ time: 0, value: 3.0 }, { time: 0.8, value: 1.0, easing: Easing.bounceOut }],
+            color: [{ time: 0, value: '#FF00FF00' }, { time: 0.8, value: '#FFFFFFFF' }],  // Starts transparent
+            mode: 'loop'
         });
         this.animatedTiles.push(dropInId);
 
@@ -807,59 +759,19 @@ export class PatternAnimationTest extends BaseTest {
 
         // Pop and fade out
         const popId = this.display.createTile(28, 17, '★', '#FF0000FF', '#000000FF', 1);
-        this.display.addValueAnimation(popId, {
-            scaleSymbolX: {
-                start: 1.0,
-                end: 4.0,
-                duration: 0.5,
-                easing: Easing.quadOut,
-                loop: false
-            },
-            scaleSymbolY: {
-                start: 1.0,
-                end: 4.0,
-                duration: 0.5,
-                easing: Easing.quadOut,
-                loop: false
-            }
-        });
-        this.display.addColorAnimation(popId, {
-            fg: {
-                start: '#FF0000FF',
-                end: '#FF000000',
-                duration: 0.5,
-                easing: Easing.quadOut,
-                loop: false
-            }
+        this.display.addKeyframeAnimation(popId, {
+            scaleSymbolX: [{ time: 0, value: 1.0 }, { time: 0.5, value: 4.0, easing: Easing.quadOut }],
+            scaleSymbolY: [{ time: 0, value: 1.0 }, { time: 0.5, value: 4.0, easing: Easing.quadOut }],
+            color: [{ time: 0, value: '#FF0000FF' }, { time: 0.5, value: '#FF000000', easing: Easing.quadOut }]
         });
         this.animatedTiles.push(popId);
 
         // Shrink and vanish
         const vanishId = this.display.createTile(31, 17, '◆', '#00FF00FF', '#000000FF', 1);
-        this.display.addValueAnimation(vanishId, {
-            scaleSymbolX: {
-                start: 1.0,
-                end: 0.1,
-                duration: 0.6,
-                easing: Easing.quadIn,
-                loop: false
-            },
-            scaleSymbolY: {
-                start: 1.0,
-                end: 0.1,
-                duration: 0.6,
-                easing: Easing.quadIn,
-                loop: false
-            }
-        });
-        this.display.addColorAnimation(vanishId, {
-            fg: {
-                start: '#00FF00FF',
-                end: '#00FF0000',
-                duration: 0.6,
-                easing: Easing.quadIn,
-                loop: false
-            }
+        this.display.addKeyframeAnimation(vanishId, {
+            scaleSymbolX: [{ time: 0, value: 1.0 }, { time: 0.6, value: 0.1, easing: Easing.quadIn }],
+            scaleSymbolY: [{ time: 0, value: 1.0 }, { time: 0.6, value: 0.1, easing: Easing.quadIn }],
+            color: [{ time: 0, value: '#00FF00FF' }, { time: 0.6, value: '#00FF0000', easing: Easing.quadIn }]
         });
         this.animatedTiles.push(vanishId);
 
@@ -0,0 +1,100 @@
+import { BaseTest } from './base-test';
+import { Easing } from '../../display';
+import { TileId } from '../../types';
+import { Timeline } from '../../timeline';
+
+export class TimelineTest extends BaseTest {
+    private tileIds: TileId[] = [];
+    private timeline: Timeline | null = null;
+
+    constructor() {
+        super({
+            worldWidth: 40,
+            worldHeight: 20,
+            viewportWidth: 40,
+            viewportHeight: 20,
+            cellWidth: 12,
+            cellHeight: 24
+        });
+    }
+
+    getName(): string {
+        return "timeline";
+    }
+
+    getDescription(): string {
+        return "A scripted sequence on one timeline: a ripple, a wipe and a hero walking in, played forwards then backwards at double speed";
+    }
+
+    protected run(): void {
+        const width = this.display.getWorldWidth();
+        const height = this.display.getWorldHeight();
+        const timeline = this.display.createTimeline();
+
+        // Ripple out from the center, each ring a little later than the last
+        const centerX = Math.floor(width / 2);
+        const centerY = Math.floor(height / 2);
+        timeline.addLabel('ripple');
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                const id = this.display.createTile(x, y, '·', '#224466FF', '#000000FF', 1);
+                const distance = Math.sqrt((x - centerX) ** 2 + (y - centerY) ** 2);
+                timeline.color(id, {
+                    fg: {
+                        start: '#224466FF',
+                        end: '#88CCFFFF',
+                        duration: 0.3,
+                        easing: Easing.quadOut,
+                        next: { start: '#88CCFFFF', end: '#224466FF', duration: 0.6 }
+                    }
+                }, `ripple+=${distance * 0.05}`);
+                this.tileIds.push(id);
+            }
+        }
+
+        // Then a wipe down the left edge, one row at a time
+        timeline.addLabel('wipe', timeline.getDuration());
+        timeline.sequence(wipe => {
+            for (let y = 0; y < height; y++) {
+                const id = this.display.createTile(0, y, ' ', '#00000000', '#AA3300FF', 2, { bgPercent: 0 });
+                wipe.value(id, { bgPercent: { start: 0, end: 1, duration: 0.05 } });
+                this.tileIds.push(id);
+            }
+        });
+
+        // The hero walks in while the wipe is still going, and waves on arrival
+        const hero = this.display.createTile(0, centerY, '@', '#FFFF00FF', '#00000000', 3);
+        this.tileIds.push(hero);
+        timeline.parallel(entrance => entrance
+            .keyframes(hero, {
+                x: [{ time: 0, value: 0 }, { time: 2, value: centerX, easing: Easing.sineOut }],
+                char: [{ time: 0, value: '@' }, { time: 2, value: '☺' }]
+            })
+            .color(hero, { fg: { start: '#FFFF0000', end: '#FFFF00FF', duration: 0.5 } }),
+        'wipe+=0.5');
+        timeline.value(hero, { offsetSymbolY: { start: 0, end: -0.3, duration: 0.2, next: { start: -0.3, end: 0, duration: 0.2, easing: Easing.bounceOut } } });
+
+        // Back to the beginning at double speed, then again from the top
+        timeline.call(() => {
+            timeline.setTimeScale(2);
+            timeline.reverse();
+        });
+        timeline.call(() => {
+            if (!timeline.isReversed()) return;
+            timeline.setTimeScale(1);
+            timeline.reverse();
+        }, 0);
+
+        timeline.play();
+        this.timeline = timeline;
+    }
+
+    protected cleanup(): void {
+        if (this.timeline) {
+            this.display.removeTimeline(this.timeline);
+            this.timeline = null;
+        }
+        this.tileIds.forEach(id => this.display.removeTile(id));
+        this.tileIds = [];
+    }
+}
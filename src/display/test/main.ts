@@ -88,6 +88,16 @@ document.addEventListener('DOMContentLoaded', () => {
         // Initialize button state
         toggleDirtyMaskButton.textContent = 'Dirty Mask: ON';
 
+        const toggleGlyphAtlasButton = document.getElementById('toggleGlyphAtlas') as HTMLButtonElement;
+        let isGlyphAtlasEnabled = true;
+
+        toggleGlyphAtlasButton.addEventListener('click', () => {
+            isGlyphAtlasEnabled = manager.currentTest?.toggleGlyphAtlas() ?? false;
+            toggleGlyphAtlasButton.textContent = isGlyphAtlasEnabled ? 'Glyph Atlas: ON' : 'Glyph Atlas: OFF';
+        });
+
+        toggleGlyphAtlasButton.textContent = 'Glyph Atlas: ON';
+
         logger.verbose('Event listeners set up');
     } catch (error) {
         logger.error('Error in main initialization:', error);
@@ -12,6 +12,10 @@ import { PatternAnimationTest } from './examples/pattern-animation-test';
 import { AnimationLoadTest } from './examples/animation-load-test';
 import { logger } from '../util/logger';
 import { SmallPixelTest } from './examples/small-pixel-test';
+import { LargeWorldTest } from './examples/large-world-test';
+import { CameraTest } from './examples/camera-test';
+import { LayerTest } from './examples/layer-test';
+import { TimelineTest } from './examples/timeline-test';
 
 export class TestManager {
     public currentTest: BaseTest | null = null;
@@ -35,7 +39,11 @@ export class TestManager {
             new StringTest(),
             new PatternAnimationTest(),
             new AnimationLoadTest(),
-            new SmallPixelTest()
+            new SmallPixelTest(),
+            new LargeWorldTest(),
+            new CameraTest(),
+            new LayerTest(),
+            new TimelineTest()
         ];
     }
 
@@ -0,0 +1,170 @@
+import { Color, Tile, TileId } from './types';
+import { scaleAlpha } from './util/color';
+import { logger } from './util/logger';
+
+export interface TileGroupTransform {
+    x: number;              // Origin, in cells. Members are placed relative to it and rotate around it
+    y: number;
+    offsetX: number;        // Added after rotation, for bobs and knockbacks on top of the origin
+    offsetY: number;
+    rotation: number;       // Radians, applied to member positions and glyphs
+    opacity: number;        // Multiplies member color alpha, 0 to 1
+    zBias: number;          // Added to every member's zIndex
+}
+
+// Where the group puts one member, in world terms
+export interface TilePlacement {
+    x: number;
+    y: number;
+    zIndex: number;
+    rotation: number;
+    color?: Color;          // Only set when the group's opacity needs applying
+    backgroundColor?: Color;
+}
+
+// What a group needs from the display that owns its tiles
+export interface TileGroupHost {
+    getTile(tileId: TileId): Tile | undefined;
+    placeTile(tile: Tile, placement: TilePlacement): void;
+    // Keep the display's tile to group lookup current
+    memberAdded(tileId: TileId, group: TileGroup): void;
+    memberRemoved(tileId: TileId, group: TileGroup): void;
+}
+
+interface GroupMember {
+    localX: number;         // Relative to the origin, before rotation
+    localY: number;
+    zIndex: number;
+    rotation: number;
+    color: Color;
+    backgroundColor: Color;
+}
+
+// Rotations by multiples of 90 degrees should land exactly on cells
+const snap = (value: number): number =>
+    Math.abs(value - Math.round(value)) < 1e-9 ? Math.round(value) : value;
+
+/**
+ * A set of tiles that move as one, e.g. a multi-cell monster or a vision cone.
+ * Members keep the position, zIndex, rotation and colors they had relative to the
+ * group when added, and the group's transform is applied on top of those. Changing
+ * the transform places every member right away; animate it with
+ * Display.addTileGroupAnimation.
+ */
+export class TileGroup {
+    private transform: TileGroupTransform;
+    private members: Map<TileId, GroupMember> = new Map();
+
+    constructor(
+        public readonly id: string,
+        x: number,
+        y: number,
+        private readonly host: TileGroupHost
+    ) {
+        this.transform = { x, y, offsetX: 0, offsetY: 0, rotation: 0, opacity: 1, zBias: 0 };
+    }
+
+    /**
+     * Add a tile to the group. Without a local position, the tile joins where it
+     * currently is relative to the origin. A tile is in one group at a time, so this
+     * takes it out of any other.
+     */
+    public add(tileId: TileId, localX?: number, localY?: number): void {
+        const tile = this.host.getTile(tileId);
+        if (!tile) {
+            logger.warn(`Attempted to add non-existent tile to group: ${tileId}`);
+            return;
+        }
+
+        this.members.set(tileId, {
+            localX: localX ?? tile.x - this.transform.x,
+            localY: localY ?? tile.y - this.transform.y,
+            zIndex: tile.zIndex,
+            rotation: tile.rotation,
+            color: tile.color,
+            backgroundColor: tile.backgroundColor
+        });
+        this.host.memberAdded(tileId, this);
+        this.place(tileId, this.transform.opacity !== 1);
+    }
+
+    // The tile stays where the group last put it
+    public remove(tileId: TileId): void {
+        if (this.members.delete(tileId)) {
+            this.host.memberRemoved(tileId, this);
+        }
+    }
+
+    public has(tileId: TileId): boolean {
+        return this.members.has(tileId);
+    }
+
+    public getTileIds(): TileId[] {
+        return Array.from(this.members.keys());
+    }
+
+    public getTransform(): Readonly<TileGroupTransform> {
+        return { ...this.transform };
+    }
+
+    public setTransform(transform: Partial<TileGroupTransform>): void {
+        const opacityChanged = transform.opacity !== undefined && transform.opacity !== this.transform.opacity;
+        this.transform = { ...this.transform, ...transform };
+        this.members.forEach((_, tileId) => this.place(tileId, opacityChanged));
+    }
+
+    public setOrigin(x: number, y: number): void {
+        this.setTransform({ x, y });
+    }
+
+    public setOffset(offsetX: number, offsetY: number): void {
+        this.setTransform({ offsetX, offsetY });
+    }
+
+    public setRotation(rotation: number): void {
+        this.setTransform({ rotation });
+    }
+
+    public setOpacity(opacity: number): void {
+        this.setTransform({ opacity });
+    }
+
+    public setZBias(zBias: number): void {
+        this.setTransform({ zBias });
+    }
+
+    // Change a member's own colors, which the group's opacity is then applied to
+    public setMemberColors(tileId: TileId, color?: Color, backgroundColor?: Color): void {
+        const member = this.members.get(tileId);
+        if (!member) {
+            logger.warn(`Attempted to recolor tile that is not in group ${this.id}: ${tileId}`);
+            return;
+        }
+
+        member.color = color ?? member.color;
+        member.backgroundColor = backgroundColor ?? member.backgroundColor;
+        this.place(tileId, true);
+    }
+
+    private place(tileId: TileId, withColors: boolean): void {
+        const member = this.members.get(tileId);
+        const tile = this.host.getTile(tileId);
+        if (!member || !tile) {
+            // Removed from the display behind our back
+            this.members.delete(tileId);
+            return;
+        }
+
+        const { x, y, offsetX, offsetY, rotation, opacity, zBias } = this.transform;
+        const cos = Math.cos(rotation);
+        const sin = Math.sin(rotation);
+        this.host.placeTile(tile, {
+            x: snap(x + offsetX + member.localX * cos - member.localY * sin),
+            y: snap(y + offsetY + member.localX * sin + member.localY * cos),
+            zIndex: member.zIndex + zBias,
+            rotation: member.rotation + rotation,
+            color: withColors ? scaleAlpha(member.color, opacity) : undefined,
+            backgroundColor: withColors ? scaleAlpha(member.backgroundColor, opacity) : undefined
+        });
+    }
+}
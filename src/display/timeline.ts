@@ -0,0 +1,328 @@
+import { AnimationHandle } from './animation-handle';
+import { ColorAnimationOptions, KeyframeTrackOption, TileColorAnimationOptions, TileId, TileKeyframeAnimationOptions, TileValueAnimationsOptions, ValueAnimationOption } from './types';
+import { logger } from './util/logger';
+
+/**
+ * Where an item goes on a timeline. A number is seconds from the start of the
+ * timeline; a string names a label, optionally shifted like 'hit+=0.2'. A bare
+ * '+=0.5' or '-=0.5' shifts the item from where it would otherwise go. Without a
+ * position items follow each other, or start together inside a parallel group.
+ */
+export type TimelinePosition = number | string;
+
+// What a timeline needs from the display whose tiles it animates
+export interface TimelineHost {
+    addValueAnimation(tileId: TileId, options: TileValueAnimationsOptions): AnimationHandle;
+    addColorAnimation(tileId: TileId, options: TileColorAnimationOptions): AnimationHandle;
+    addKeyframeAnimation(tileId: TileId, options: TileKeyframeAnimationOptions): AnimationHandle;
+}
+
+interface TimelineEntry {
+    start: number;
+    duration: number;
+    play: (startTime: number) => AnimationHandle;
+    handle?: AnimationHandle;
+    missing: boolean;           // Its tile was gone when it tried to start
+}
+
+interface TimelineCallback {
+    time: number;
+    callback: (timeline: Timeline) => void;
+}
+
+// Items added inside sequence() or parallel() go relative to their group
+interface TimelineScope {
+    start: number;
+    cursor: number;             // End of the last item, where the next one goes in a sequence
+    end: number;
+    parallel: boolean;
+}
+
+type ValueChains = Omit<TileValueAnimationsOptions, 'startTime'>;
+type ColorChains = Omit<TileColorAnimationOptions, 'startTime'>;
+type KeyframeTracks = Omit<TileKeyframeAnimationOptions, 'startTime' | 'mode'>;
+
+// Timelines decide when things end, so every step plays once
+const playOnce = <T extends ValueAnimationOption | ColorAnimationOptions>(step: T): T =>
+    ({ ...step, loop: false, next: step.next ? playOnce(step.next) : undefined });
+
+const chainDuration = (step: ValueAnimationOption | ColorAnimationOptions | undefined): number =>
+    step ? step.duration * (1 - (step.offset ?? 0)) + chainDuration(step.next) : 0;
+
+const trackDuration = (track: KeyframeTrackOption<unknown> | undefined): number => {
+    if (!track) return 0;
+    const { keyframes, offset } = Array.isArray(track) ? { keyframes: track, offset: 0 } : track;
+    const last = Math.max(0, ...keyframes.map(keyframe => keyframe.time));
+    return Math.max(0, last - (offset ?? 0));
+};
+
+/**
+ * Schedules tile animations against one clock, for cutscenes and effects that
+ * would otherwise need startTime arithmetic. Items run one after another unless
+ * placed with a position or grouped with parallel(); labels name points to place
+ * items at or seek to, and call() runs code when playback passes a point.
+ *
+ * The timeline starts each animation through the display and then drives it
+ * frame by frame, so pausing, reversing, changing speed or seeking the timeline
+ * carries every animation along. Animations on a timeline play once: `loop` and
+ * keyframe modes are ignored. Like the display's own add*Animation calls, a value,
+ * color or keyframe animation replaces the previous one of the same kind on its
+ * tile, so overlapping items of one kind on one tile don't mix.
+ */
+export class Timeline {
+    private entries: TimelineEntry[] = [];
+    private callbacks: TimelineCallback[] = [];
+    private labels: Map<string, number> = new Map();
+    private scopes: TimelineScope[] = [{ start: 0, cursor: 0, end: 0, parallel: false }];
+
+    private time: number = 0;
+    private timeScale: number = 1;
+    private reversed: boolean = false;
+    private playing: boolean = false;
+    private lastTimestamp: number | null = null;
+    private needsSync: boolean = false;
+    private inclusive: boolean = true;      // Fire callbacks at exactly the current time on the next step
+
+    constructor(private readonly host: TimelineHost) {}
+
+    public value(tileId: TileId, options: ValueChains, position?: TimelinePosition): this {
+        const chains: ValueChains = {};
+        let duration = 0;
+        (Object.keys(options) as (keyof ValueChains)[]).forEach(property => {
+            const step = options[property];
+            if (!step) return;
+            chains[property] = playOnce(step);
+            duration = Math.max(duration, chainDuration(step));
+        });
+
+        return this.addEntry(duration, position,
+            startTime => this.host.addValueAnimation(tileId, { ...chains, startTime }));
+    }
+
+    public color(tileId: TileId, options: ColorChains, position?: TimelinePosition): this {
+        const fg = options.fg ? playOnce(options.fg) : undefined;
+        const bg = options.bg ? playOnce(options.bg) : undefined;
+        const duration = Math.max(chainDuration(options.fg), chainDuration(options.bg));
+
+        return this.addEntry(duration, position,
+            startTime => this.host.addColorAnimation(tileId, { fg, bg, startTime }));
+    }
+
+    public keyframes(tileId: TileId, options: KeyframeTracks, position?: TimelinePosition): this {
+        const tracks: KeyframeTracks = {};
+        let duration = 0;
+        (Object.keys(options) as (keyof KeyframeTracks)[]).forEach(property => {
+            const track = options[property] as KeyframeTrackOption<unknown> | undefined;
+            if (!track) return;
+            (tracks as Record<string, KeyframeTrackOption<unknown>>)[property] =
+                Array.isArray(track) ? track : { ...track, mode: 'once' };
+            duration = Math.max(duration, trackDuration(track));
+        });
+
+        return this.addEntry(duration, position,
+            startTime => this.host.addKeyframeAnimation(tileId, { ...tracks, mode: 'once', startTime }));
+    }
+
+    // Run callback when playback passes this point, in either direction
+    public call(callback: (timeline: Timeline) => void, position?: TimelinePosition): this {
+        const time = this.place(0, position);
+        this.callbacks.push({ time, callback });
+        return this;
+    }
+
+    public addLabel(name: string, position?: TimelinePosition): this {
+        this.labels.set(name, this.place(0, position));
+        return this;
+    }
+
+    public getLabel(name: string): number | undefined {
+        return this.labels.get(name);
+    }
+
+    // Items added in build follow each other, starting at position
+    public sequence(build: (timeline: Timeline) => void, position?: TimelinePosition): this {
+        return this.group(false, build, position);
+    }
+
+    // Items added in build all start at position, unless given their own
+    public parallel(build: (timeline: Timeline) => void, position?: TimelinePosition): this {
+        return this.group(true, build, position);
+    }
+
+    public play(): void {
+        // Playing again from the end starts over
+        if (!this.reversed && this.time >= this.getDuration()) {
+            this.seek(0);
+        } else if (this.reversed && this.time <= 0) {
+            this.seek(this.getDuration());
+        }
+        this.playing = true;
+    }
+
+    public pause(): void {
+        this.playing = false;
+    }
+
+    // Play backwards from the current time, or forwards again if already reversed
+    public reverse(): void {
+        this.reversed = !this.reversed;
+        this.play();
+    }
+
+    // Seconds or a label. Callbacks between here and there don't run
+    public seek(position: number | string): void {
+        const time = typeof position === 'string' ? this.labels.get(position) : position;
+        if (time === undefined) {
+            logger.warn(`Attempted to seek to non-existent timeline label: ${position}`);
+            return;
+        }
+
+        this.time = Math.min(Math.max(time, 0), this.getDuration());
+        this.needsSync = true;
+        this.inclusive = true;
+    }
+
+    // 2 plays twice as fast, 0.5 at half speed
+    public setTimeScale(timeScale: number): void {
+        if (timeScale <= 0) {
+            logger.warn(`Timeline time scale must be positive, got ${timeScale}`);
+            return;
+        }
+        this.timeScale = timeScale;
+    }
+
+    public getTimeScale(): number {
+        return this.timeScale;
+    }
+
+    public getTime(): number {
+        return this.time;
+    }
+
+    public getDuration(): number {
+        return this.scopes[0].end;
+    }
+
+    public isPlaying(): boolean {
+        return this.playing;
+    }
+
+    public isReversed(): boolean {
+        return this.reversed;
+    }
+
+    // Stop every animation the timeline started
+    public cancel(): void {
+        this.playing = false;
+        this.entries.forEach(entry => {
+            entry.handle?.cancel();
+            entry.handle = undefined;
+        });
+    }
+
+    // Called by the display at the start of each frame, before animations are stepped
+    public update(timestamp: number): void {
+        const elapsed = this.lastTimestamp === null ? 0 : (timestamp - this.lastTimestamp) / 1000;
+        this.lastTimestamp = timestamp;
+        if (!this.playing && !this.needsSync) return;
+
+        if (this.playing) {
+            const previous = this.time;
+            const duration = this.getDuration();
+            const delta = elapsed * this.timeScale * (this.reversed ? -1 : 1);
+            this.time = Math.min(Math.max(previous + delta, 0), duration);
+            this.fireCallbacks(previous, this.time);
+            this.inclusive = false;
+
+            if (this.reversed ? this.time <= 0 : this.time >= duration) {
+                this.playing = false;
+            }
+        }
+
+        this.needsSync = false;
+        this.entries.forEach(entry => this.syncEntry(entry, timestamp));
+    }
+
+    private syncEntry(entry: TimelineEntry, timestamp: number): void {
+        if (entry.missing) return;
+
+        const local = this.time - entry.start;
+        const active = entry.handle && !entry.handle.isFinished();
+        if (local < 0) {
+            // Not started yet, or rewound past its start
+            if (active) entry.handle!.seek(0);
+            return;
+        }
+        if (!active) {
+            // Already played out, and nothing has rewound it since
+            if (entry.handle && local >= entry.duration) return;
+
+            entry.handle = entry.play(timestamp - local * 1000);
+            if (entry.handle.isFinished()) {
+                entry.missing = true;
+                return;
+            }
+            entry.handle.pause();
+        }
+        entry.handle!.seek(Math.min(local, entry.duration));
+    }
+
+    // Callbacks between the two times, in the order playback passes them
+    private fireCallbacks(from: number, to: number): void {
+        const passed = this.callbacks.filter(({ time }) =>
+            (time === from && this.inclusive) ||
+            (to > from && time > from && time <= to) ||
+            (to < from && time < from && time >= to));
+        passed.sort((a, b) => to < from ? b.time - a.time : a.time - b.time);
+        passed.forEach(({ callback }) => callback(this));
+    }
+
+    private addEntry(duration: number, position: TimelinePosition | undefined, play: (startTime: number) => AnimationHandle): this {
+        const start = this.place(duration, position);
+        this.entries.push({ start, duration, play, missing: false });
+        this.entries.sort((a, b) => a.start - b.start);
+        this.needsSync = true;
+        return this;
+    }
+
+    private group(parallel: boolean, build: (timeline: Timeline) => void, position?: TimelinePosition): this {
+        const start = this.resolve(position);
+        this.scopes.push({ start, cursor: start, end: start, parallel });
+        try {
+            build(this);
+        } finally {
+            const scope = this.scopes.pop()!;
+            this.place(scope.end - start, start);
+        }
+        return this;
+    }
+
+    // Start time for an item of the given length, which is then accounted for in the current group
+    private place(duration: number, position?: TimelinePosition): number {
+        const start = Math.max(this.resolve(position), 0);
+        const scope = this.scopes[this.scopes.length - 1];
+        scope.cursor = start + duration;
+        scope.end = Math.max(scope.end, start + duration);
+        this.scopes[0].end = Math.max(this.scopes[0].end, start + duration);
+        return start;
+    }
+
+    private resolve(position?: TimelinePosition): number {
+        const scope = this.scopes[this.scopes.length - 1];
+        const next = scope.parallel ? scope.start : scope.cursor;
+        if (position === undefined) return next;
+        if (typeof position === 'number') return position;
+
+        const match = position.match(/^(.*?)(?:([+-])=(\d*\.?\d+))?$/)!;
+        const [, label, sign, amount] = match;
+        const shift = sign ? (sign === '+' ? 1 : -1) * parseFloat(amount) : 0;
+        if (!label) return next + shift;
+
+        const time = this.labels.get(label);
+        if (time === undefined) {
+            logger.warn(`Attempted to place timeline item at non-existent label: ${label}`);
+            return next;
+        }
+        return time + shift;
+    }
+}
@@ -1,6 +1,4 @@
-import { FillDirection } from "./display";
-
-export type Color = string; // CSS color string in #RRGGBBAA format
+export type Color = string; // CSS color string, stored as #RRGGBBAA; anything parseColor reads, or a palette role like '$wall', is accepted
 
 export type TileId = string;
 
@@ -21,6 +19,9 @@ export interface Tile {
     rotation: number;     // New property: rotation in radians
     noClip?: boolean;     // New option to disable clipping mask
     blendMode: BlendMode;  // Now required with a default value
+    layer?: string;       // Layer the tile is drawn on (default DEFAULT_LAYER)
+    colorRole?: string;             // Palette roles the colors follow when the active palette changes
+    backgroundColorRole?: string;
 }
 
 export interface Cell {
@@ -28,12 +29,79 @@ export interface Cell {
 }
 
 export interface Viewport {
+    x: number;          // Top-left of the visible area, in cells
+    y: number;
+    width: number;      // Cells shown at zoom 1
+    height: number;
+    zoom?: number;      // Default 1. Above 1 shows fewer, bigger cells on the same canvas
+}
+
+// Cell rectangle
+export interface Rect {
     x: number;
     y: number;
     width: number;
     height: number;
 }
 
+// A square block of cells that came into or went out of view
+export interface RegionEvent {
+    type: 'enter' | 'exit';
+    regionX: number;    // Region coordinates
+    regionY: number;
+    x: number;          // Cell rectangle the region covers
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface ZoomOptions {
+    anchorX?: number;           // World point that stays put on screen (default: viewport center)
+    anchorY?: number;
+    duration?: number;          // Seconds, 0 to jump straight there (default 0)
+    easing?: EasingFunction;
+}
+
+export type PointerCellEventType = 'enter' | 'leave' | 'click' | 'dragstart' | 'drag' | 'dragend';
+
+// A pointer interaction with a world cell
+export interface PointerCellEvent {
+    type: PointerCellEventType;
+    x: number;                  // Cell
+    y: number;
+    worldX: number;             // Exact world position, in cells
+    worldY: number;
+    tiles: Tile[];              // Tiles in the cell, bottom to top
+    viewId?: string;            // View the pointer is over, undefined for the main view
+    button: number;             // As in MouseEvent.button
+    dragStart?: { x: number, y: number };   // Cell the drag started in, for drag events
+    originalEvent: PointerEvent;
+}
+
+// Layer every Display starts with, and the one tiles go on unless told otherwise
+export const DEFAULT_LAYER = 'default';
+
+export interface LayerOptions {
+    order?: number;             // Layers are drawn lowest order first, ties in the order added (default 0)
+    visible?: boolean;          // Default true
+    opacity?: number;           // 0 to 1 (default 1)
+    parallax?: number;          // How far the layer scrolls with the viewport, 0.5 is half as far (default 1)
+    blendMode?: BlendMode;      // How the layer is composited over the ones below (default SourceOver)
+    fixed?: boolean;            // Positioned in viewport cells, ignoring scroll, zoom and camera effects (default false)
+}
+
+// Palette every Display starts with. Its roles are the text markup's color aliases,
+// and other palettes fall back to it for roles they leave out
+export const DEFAULT_PALETTE = 'default';
+
+// Marks a color as a palette role, e.g. '$wall', rather than a literal color
+export const PALETTE_ROLE_PREFIX = '$';
+
+// Colors by role name, e.g. { wall: '#666666FF', danger: 'red' }
+export interface Palette {
+    [role: string]: Color;
+}
+
 export interface ColorMap {
     [key: string]: string;  // Maps single-char aliases to full color values
 }
@@ -45,6 +113,15 @@ export interface ColoredString {
 
 export type EasingFunction = (t: number) => number;
 
+// Where colors are blended when animating between them; see interpolateColor
+export type ColorSpace = 'srgb' | 'linear-rgb' | 'hsl' | 'oklab' | 'oklch';
+
+// A color partway along a gradient, offset 0 to 1
+export interface ColorStop {
+    offset: number;
+    color: Color;
+}
+
 // Keep existing ColorAnimation for backward compatibility
 export interface ColorAnimation {
     startColor: Color;
@@ -55,6 +132,8 @@ export interface ColorAnimation {
     loop: boolean;
     offset: number;
     easing?: EasingFunction;
+    space: ColorSpace;
+    stops?: ColorStop[];    // Every color passed through in offset order, start and end included
     next?: ColorAnimation;  // Reference to the next animation in the chain
     running: boolean;  // Add running flag
 }
@@ -99,7 +178,20 @@ export enum EasingType {
     ExpoInOut = 'expoInOut',
     BounceIn = 'bounceIn',
     BounceOut = 'bounceOut',
-    BounceInOut = 'bounceInOut'
+    BounceInOut = 'bounceInOut',
+    ElasticIn = 'elasticIn',
+    ElasticOut = 'elasticOut',
+    ElasticInOut = 'elasticInOut',
+    BackIn = 'backIn',
+    BackOut = 'backOut',
+    BackInOut = 'backInOut'
+}
+
+export enum FillDirection {
+    TOP,
+    RIGHT,
+    BOTTOM,
+    LEFT
 }
 
 export interface TileConfig {
@@ -107,6 +199,7 @@ export interface TileConfig {
     fillDirection?: FillDirection;
     noClip?: boolean;
     blendMode?: BlendMode;
+    layer?: string;
 }
 
 
@@ -120,7 +213,7 @@ export interface AnimationOptions {
     reverse?: boolean;
     loop?: boolean;
     offset?: number;
-    easing?: EasingFunction;
+    easing?: EasingFunction | string;   // A function or a name for getEasing
 }
 
 // Base interface for chaining
@@ -132,6 +225,8 @@ interface ChainableAnimation {
 export interface ColorAnimationOptions extends AnimationOptions, ChainableAnimation {
     start: Color;
     end: Color;
+    stops?: ColorStop[];    // Colors to pass through on the way from start to end
+    space?: ColorSpace;     // Default 'srgb'
 }
 
 export interface ValueAnimationOption {
@@ -140,7 +235,7 @@ export interface ValueAnimationOption {
     duration: number;
     reverse?: boolean;
     offset?: number;
-    easing?: EasingFunction;
+    easing?: EasingFunction | string;   // A function or a name for getEasing
     loop?: boolean;
     next?: ValueAnimationOption;  // Add chaining support
 }
@@ -154,6 +249,77 @@ export interface TileValueAnimationsOptions {
     rotation?: ValueAnimationOption;  // New animation option
     x?: ValueAnimationOption;
     y?: ValueAnimationOption;
+    zIndex?: ValueAnimationOption;
+    startTime?: number;
+}
+
+// Animates the matching fields of a TileGroupTransform
+export interface TileGroupAnimationOptions {
+    x?: ValueAnimationOption;
+    y?: ValueAnimationOption;
+    offsetX?: ValueAnimationOption;
+    offsetY?: ValueAnimationOption;
+    rotation?: ValueAnimationOption;
+    opacity?: ValueAnimationOption;
+    zBias?: ValueAnimationOption;
+    startTime?: number;
+}
+
+// What a keyframe track does after its last keyframe: hold it, start over, or play backwards
+export type KeyframeMode = 'once' | 'loop' | 'pingpong';
+
+export interface Keyframe<T> {
+    time: number;               // Seconds from the start of the track
+    value: T;
+    easing?: EasingFunction | string;   // How the track eases into this keyframe from the one before (default linear)
+}
+
+export interface KeyframeTrack<T> {
+    keyframes: Keyframe<T>[];
+    mode?: KeyframeMode;        // Default: the animation's mode
+    offset?: number;            // Seconds to start into the track, e.g. to stagger a wave across tiles
+}
+
+// Tracks can be given as just their keyframes
+export type KeyframeTrackOption<T> = KeyframeTrack<T> | Keyframe<T>[];
+
+// One track per tile property, all sharing the animation's start time
+export interface TileKeyframeAnimationOptions {
+    x?: KeyframeTrackOption<number>;
+    y?: KeyframeTrackOption<number>;
+    zIndex?: KeyframeTrackOption<number>;
+    bgPercent?: KeyframeTrackOption<number>;
+    offsetSymbolX?: KeyframeTrackOption<number>;
+    offsetSymbolY?: KeyframeTrackOption<number>;
+    scaleSymbolX?: KeyframeTrackOption<number>;
+    scaleSymbolY?: KeyframeTrackOption<number>;
+    rotation?: KeyframeTrackOption<number>;
+    color?: KeyframeTrackOption<Color>;
+    backgroundColor?: KeyframeTrackOption<Color>;
+    char?: KeyframeTrackOption<string>;     // Symbols switch at each keyframe rather than blend
+    colorSpace?: ColorSpace;                // Where color keyframes are blended (default 'srgb')
+    mode?: KeyframeMode;                    // Default 'once'
+    startTime?: number;
+}
+
+// Tile properties that springs and momentum can move
+export type MotionProperty = 'x' | 'y' | 'offsetSymbolX' | 'offsetSymbolY' | 'scaleSymbolX' | 'scaleSymbolY' | 'rotation';
+
+export type MotionValues = { [P in MotionProperty]?: number };
+
+export interface SpringOptions {
+    stiffness?: number;         // Pull towards the target (default 170)
+    damping?: number;           // Resistance that stops it oscillating forever (default 26)
+    mass?: number;              // Default 1
+    velocity?: MotionValues;    // Units per second to start with, instead of keeping the current velocity
+    restSpeed?: number;         // Settles once slower than this, in units per second (default 0.01)
+    restDelta?: number;         // ...and at least this close to the target (default 0.001)
+    startTime?: number;
+}
+
+export interface DecayOptions {
+    timeConstant?: number;      // Seconds for the velocity to fall to about a third (default 0.35)
+    restSpeed?: number;         // Stops once slower than this, in units per second (default 0.01)
     startTime?: number;
 }
 
@@ -1,24 +1,323 @@
-import { Color } from "../types";
-
-export function interpolateColor(start: Color, end: Color, progress: number): Color {
-    const fromRGB = {
-        r: parseInt(start.slice(1, 3), 16),
-        g: parseInt(start.slice(3, 5), 16),
-        b: parseInt(start.slice(5, 7), 16),
-        a: parseInt(start.slice(7, 9), 16)
-    };
-    
-    const toRGB = {
-        r: parseInt(end.slice(1, 3), 16),
-        g: parseInt(end.slice(3, 5), 16),
-        b: parseInt(end.slice(5, 7), 16),
-        a: parseInt(end.slice(7, 9), 16)
+import { Color, ColorSpace, ColorStop } from "../types";
+import { NAMED_COLORS } from "./named-colors";
+
+export interface RGBA {
+    r: number;
+    g: number;
+    b: number;
+    a: number;
+}
+
+const TRANSPARENT: RGBA = { r: 0, g: 0, b: 0, a: 0 };
+
+const HEX_PATTERN = /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+const FAST_HEX_PATTERN = /^#[0-9a-f]{6}([0-9a-f]{2})?$/i;
+const CANONICAL_PATTERN = /^#[0-9a-f]{8}$/i;
+const FUNCTION_PATTERN = /^(rgba?|hsla?)\((.*)\)$/;
+const NUMBER_PATTERN = /^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(%|deg|grad|rad|turn)?$/;
+
+// Parses #RRGGBBAA colors. A missing alpha byte is treated as fully opaque.
+// Any other form goes through parseColor, and colors it can't read come out transparent.
+export function parseHexColor(color: Color): RGBA {
+    if (!FAST_HEX_PATTERN.test(color)) return parseColor(color) ?? { ...TRANSPARENT };
+    return {
+        r: parseInt(color.slice(1, 3), 16),
+        g: parseInt(color.slice(3, 5), 16),
+        b: parseInt(color.slice(5, 7), 16),
+        a: color.length >= 9 ? parseInt(color.slice(7, 9), 16) : 255
     };
-    
-    const r = Math.round(fromRGB.r + (toRGB.r - fromRGB.r) * progress);
-    const g = Math.round(fromRGB.g + (toRGB.g - fromRGB.g) * progress);
-    const b = Math.round(fromRGB.b + (toRGB.b - fromRGB.b) * progress);
-    const a = Math.round(fromRGB.a + (toRGB.a - fromRGB.a) * progress);
-    
+}
+
+/**
+ * Read a color written any way CSS allows for sRGB: #RGB, #RGBA, #RRGGBB,
+ * #RRGGBBAA, rgb()/rgba() and hsl()/hsla() in the comma or the space-separated
+ * form, or a named color such as 'rebeccapurple' or 'transparent'. Returns
+ * undefined if it isn't one.
+ */
+export function parseColor(color: string): RGBA | undefined {
+    if (typeof color !== 'string') return undefined;
+    const input = color.trim().toLowerCase();
+    const named = NAMED_COLORS[input];
+    if (named) return parseColor(named);
+
+    if (HEX_PATTERN.test(input)) {
+        const digits = input.length <= 5 ? Array.from(input.slice(1), digit => digit + digit).join('') : input.slice(1);
+        return {
+            r: parseInt(digits.slice(0, 2), 16),
+            g: parseInt(digits.slice(2, 4), 16),
+            b: parseInt(digits.slice(4, 6), 16),
+            a: digits.length === 8 ? parseInt(digits.slice(6, 8), 16) : 255
+        };
+    }
+
+    const match = input.match(FUNCTION_PATTERN);
+    if (!match) return undefined;
+    const args = match[2].trim().split(/\s*,\s*|\s*\/\s*|\s+/).map(parseNumber);
+    if ((args.length !== 3 && args.length !== 4) || args.some(arg => !arg)) return undefined;
+
+    const [first, second, third, alpha] = args as ParsedNumber[];
+    const a = alpha ? parseFraction(alpha, 1) : 1;
+    if (a === undefined) return undefined;
+
+    if (match[1].startsWith('rgb')) {
+        const channels = [first, second, third].map(parseByte);
+        if (channels.some(channel => channel === undefined)) return undefined;
+        const [r, g, b] = channels as number[];
+        return { r, g, b, a: clampChannel(a * 255) };
+    }
+
+    const hue = parseHue(first);
+    const saturation = parseFraction(second, 100);
+    const lightness = parseFraction(third, 100);
+    if (hue === undefined || saturation === undefined || lightness === undefined) return undefined;
+    return { ...hslToRgb([hue, saturation, lightness]), a: clampChannel(a * 255) };
+}
+
+/**
+ * The #RRGGBBAA form the Display works in, for any color parseColor reads, or
+ * undefined if it can't. Colors already in that form come back untouched.
+ */
+export function normalizeColor(color: Color): Color | undefined {
+    if (typeof color === 'string' && CANONICAL_PATTERN.test(color)) return color;
+    const rgba = parseColor(color);
+    return rgba && toHexColor(rgba);
+}
+
+export function isOpaqueColor(color: Color): boolean {
+    return !!color && parseHexColor(color).a === 255;
+}
+
+// Formats channels in 0-255 as a lowercase #rrggbbaa color
+export function toHexColor({ r, g, b, a }: RGBA): Color {
     return `#${r.toString(16).padStart(2, '0')}${g.toString(16).padStart(2, '0')}${b.toString(16).padStart(2, '0')}${a.toString(16).padStart(2, '0')}`;
-}
\ No newline at end of file
+}
+
+/**
+ * Blend from start to end. Raw sRGB is the default and the cheapest, but goes
+ * through muddy, darker midpoints between very different hues; 'linear-rgb' mixes
+ * light like a lamp would, 'hsl' and 'oklch' travel round the hue wheel the short
+ * way, and 'oklab' keeps perceived lightness even. Alpha is always blended linearly.
+ */
+export function interpolateColor(start: Color, end: Color, progress: number, space: ColorSpace = 'srgb'): Color {
+    const from = parseHexColor(start);
+    const to = parseHexColor(end);
+    const a = clampChannel(lerp(from.a, to.a, progress));
+
+    switch (space) {
+        case 'linear-rgb': {
+            const [r, g, b] = lerpTriple(toLinearRGB(from), toLinearRGB(to), progress);
+            return toHexColor({ ...fromLinearRGB([r, g, b]), a });
+        }
+        case 'hsl': {
+            const [h1, s1, l1] = rgbToHsl(from);
+            const [h2, s2, l2] = rgbToHsl(to);
+            const hue = lerpHue(s1 === 0 ? h2 : h1, s2 === 0 ? h1 : h2, progress);
+            return toHexColor({ ...hslToRgb([hue, lerp(s1, s2, progress), lerp(l1, l2, progress)]), a });
+        }
+        case 'oklab': {
+            const lab = lerpTriple(linearToOklab(toLinearRGB(from)), linearToOklab(toLinearRGB(to)), progress);
+            return toHexColor({ ...fromLinearRGB(oklabToLinear(lab)), a });
+        }
+        case 'oklch': {
+            const [l1, c1, h1] = oklabToOklch(linearToOklab(toLinearRGB(from)));
+            const [l2, c2, h2] = oklabToOklch(linearToOklab(toLinearRGB(to)));
+            // A grey has no hue of its own, so take the other color's rather than swinging through the wheel
+            const hue = lerpHue(c1 < ACHROMATIC ? h2 : h1, c2 < ACHROMATIC ? h1 : h2, progress);
+            const lch: [number, number, number] = [lerp(l1, l2, progress), lerp(c1, c2, progress), hue];
+            return toHexColor({ ...fromLinearRGB(oklabToLinear(oklchToOklab(lch))), a });
+        }
+        default:
+            return toHexColor({
+                r: clampChannel(lerp(from.r, to.r, progress)),
+                g: clampChannel(lerp(from.g, to.g, progress)),
+                b: clampChannel(lerp(from.b, to.b, progress)),
+                a
+            });
+    }
+}
+
+/**
+ * Color at progress (0 to 1) along a gradient of stops sorted by offset, blending
+ * neighbouring stops in the given space. Before the first stop and after the last
+ * the gradient holds their colors.
+ */
+export function sampleGradient(stops: ColorStop[], progress: number, space: ColorSpace = 'srgb'): Color {
+    const next = stops.findIndex(stop => stop.offset > progress);
+    if (next === -1) return stops[stops.length - 1].color;
+    if (next === 0) return stops[0].color;
+
+    const from = stops[next - 1];
+    const to = stops[next];
+    return interpolateColor(from.color, to.color, (progress - from.offset) / (to.offset - from.offset), space);
+}
+
+// Raise HSL lightness by amount (0 to 1), towards white
+export function lighten(color: Color, amount: number): Color {
+    const rgba = parseHexColor(color);
+    const [h, s, l] = rgbToHsl(rgba);
+    return toHexColor({ ...hslToRgb([h, s, Math.max(0, Math.min(1, l + amount))]), a: rgba.a });
+}
+
+// Lower HSL lightness by amount (0 to 1), towards black
+export function darken(color: Color, amount: number): Color {
+    return lighten(color, -amount);
+}
+
+// Blend weight (0 to 1) of other into color, 0.5 being half and half
+export function mix(color: Color, other: Color, weight: number = 0.5, space: ColorSpace = 'srgb'): Color {
+    return interpolateColor(color, other, weight, space);
+}
+
+// Replace a color's alpha, 0 to 1
+export function withAlpha(color: Color, alpha: number): Color {
+    return toHexColor({ ...parseHexColor(color), a: clampChannel(alpha * 255) });
+}
+
+// Relative luminance as WCAG defines it, 0 for black to 1 for white. Alpha is ignored
+export function luminance(color: Color): number {
+    const [r, g, b] = toLinearRGB(parseHexColor(color));
+    return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+/**
+ * WCAG contrast ratio between two colors, from 1 for the same luminance to 21
+ * for black on white. Body text wants at least 4.5. Alpha is ignored.
+ */
+export function contrast(color: Color, other: Color): number {
+    const l1 = luminance(color);
+    const l2 = luminance(other);
+    return (Math.max(l1, l2) + 0.05) / (Math.min(l1, l2) + 0.05);
+}
+
+// Multiply a color's alpha, e.g. to fade it by an opacity
+export function scaleAlpha(color: Color, factor: number): Color {
+    const rgba = parseHexColor(color);
+    return toHexColor({ ...rgba, a: Math.round(Math.max(0, Math.min(1, factor)) * rgba.a) });
+}
+
+// OKLCH chroma below which a color counts as grey
+const ACHROMATIC = 1e-4;
+
+const lerp = (from: number, to: number, t: number): number => from + (to - from) * t;
+
+const lerpTriple = (from: [number, number, number], to: [number, number, number], t: number): [number, number, number] =>
+    [lerp(from[0], to[0], t), lerp(from[1], to[1], t), lerp(from[2], to[2], t)];
+
+// Degrees, whichever way round is shorter
+const lerpHue = (from: number, to: number, t: number): number => {
+    const delta = ((to - from) % 360 + 540) % 360 - 180;
+    return ((from + delta * t) % 360 + 360) % 360;
+};
+
+// Easings that overshoot can push channels out of range
+const clampChannel = (value: number): number => Math.max(0, Math.min(255, Math.round(value)));
+
+interface ParsedNumber {
+    value: number;
+    unit: string;
+}
+
+function parseNumber(arg: string): ParsedNumber | undefined {
+    const match = arg.match(NUMBER_PATTERN);
+    return match ? { value: parseFloat(match[1]), unit: match[2] ?? '' } : undefined;
+}
+
+// An rgb() channel, 0-255 or a percentage
+function parseByte({ value, unit }: ParsedNumber): number | undefined {
+    if (unit === '%') return clampChannel(value * 255 / 100);
+    return unit === '' ? clampChannel(value) : undefined;
+}
+
+// Alpha, saturation or lightness, as 0 to 1. Bare numbers are read out of scale: 1 for alpha, 100 for the rest
+function parseFraction({ value, unit }: ParsedNumber, scale: number): number | undefined {
+    if (unit !== '%' && unit !== '') return undefined;
+    return Math.max(0, Math.min(1, value / (unit === '%' ? 100 : scale)));
+}
+
+// Degrees unless another angle unit is given
+function parseHue({ value, unit }: ParsedNumber): number | undefined {
+    const degrees = unit === '' || unit === 'deg' ? value :
+        unit === 'rad' ? value * 180 / Math.PI :
+        unit === 'grad' ? value * 0.9 :
+        unit === 'turn' ? value * 360 :
+        undefined;
+    return degrees === undefined ? undefined : (degrees % 360 + 360) % 360;
+}
+
+function toLinearRGB({ r, g, b }: RGBA): [number, number, number] {
+    const linear = (channel: number): number => {
+        const c = channel / 255;
+        return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+    };
+    return [linear(r), linear(g), linear(b)];
+}
+
+function fromLinearRGB([r, g, b]: [number, number, number]): Omit<RGBA, 'a'> {
+    const encode = (channel: number): number => {
+        const c = Math.max(0, Math.min(1, channel));
+        return clampChannel(255 * (c <= 0.0031308 ? 12.92 * c : 1.055 * Math.pow(c, 1 / 2.4) - 0.055));
+    };
+    return { r: encode(r), g: encode(g), b: encode(b) };
+}
+
+// Hue in degrees, saturation and lightness 0-1
+function rgbToHsl({ r, g, b }: RGBA): [number, number, number] {
+    const [rn, gn, bn] = [r / 255, g / 255, b / 255];
+    const max = Math.max(rn, gn, bn);
+    const min = Math.min(rn, gn, bn);
+    const l = (max + min) / 2;
+    const d = max - min;
+    if (d === 0) return [0, 0, l];
+
+    const s = d / (1 - Math.abs(2 * l - 1));
+    const h = max === rn ? ((gn - bn) / d + 6) % 6 :
+        max === gn ? (bn - rn) / d + 2 :
+        (rn - gn) / d + 4;
+    return [h * 60, s, l];
+}
+
+function hslToRgb([h, s, l]: [number, number, number]): Omit<RGBA, 'a'> {
+    const c = (1 - Math.abs(2 * l - 1)) * s;
+    const x = c * (1 - Math.abs((h / 60) % 2 - 1));
+    const m = l - c / 2;
+    const [r, g, b] =
+        h < 60 ? [c, x, 0] :
+        h < 120 ? [x, c, 0] :
+        h < 180 ? [0, c, x] :
+        h < 240 ? [0, x, c] :
+        h < 300 ? [x, 0, c] :
+        [c, 0, x];
+    return { r: clampChannel((r + m) * 255), g: clampChannel((g + m) * 255), b: clampChannel((b + m) * 255) };
+}
+
+// Björn Ottosson's OKLab, from and to linear sRGB
+function linearToOklab([r, g, b]: [number, number, number]): [number, number, number] {
+    const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+    const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+    const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+    return [
+        0.2104542553 * l + 0.7936177850 * m - 0.0040720468 * s,
+        1.9779984951 * l - 2.4285922050 * m + 0.4505937099 * s,
+        0.0259040371 * l + 0.7827717662 * m - 0.8086757660 * s
+    ];
+}
+
+function oklabToLinear([L, a, b]: [number, number, number]): [number, number, number] {
+    const l = Math.pow(L + 0.3963377774 * a + 0.2158037573 * b, 3);
+    const m = Math.pow(L - 0.1055613458 * a - 0.0638541728 * b, 3);
+    const s = Math.pow(L - 0.0894841775 * a - 1.2914855480 * b, 3);
+    return [
+        4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+        -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+        -0.0041960863 * l - 0.7034186147 * m + 1.7076147010 * s
+    ];
+}
+
+function oklabToOklch([L, a, b]: [number, number, number]): [number, number, number] {
+    return [L, Math.sqrt(a * a + b * b), (Math.atan2(b, a) * 180 / Math.PI + 360) % 360];
+}
+
+function oklchToOklab([L, c, h]: [number, number, number]): [number, number, number] {
+    const radians = h * Math.PI / 180;
+    return [L, c * Math.cos(radians), c * Math.sin(radians)];
+}
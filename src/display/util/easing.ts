@@ -0,0 +1,219 @@
+import { EasingFunction } from "../types";
+import { logger } from "./logger";
+
+// How steps() places its jumps, as in CSS steps()
+export type StepPosition = 'start' | 'end' | 'both' | 'none';
+
+const DEFAULT_OVERSHOOT = 1.70158;
+
+export const Easing = {
+    // Linear (no easing)
+    linear: (t: number): number => t,
+
+    // Sine
+    sineIn: (t: number): number => 1 - Math.cos((t * Math.PI) / 2),
+    sineOut: (t: number): number => Math.sin((t * Math.PI) / 2),
+    sineInOut: (t: number): number => -(Math.cos(Math.PI * t) - 1) / 2,
+
+    // Quadratic
+    quadIn: (t: number): number => t * t,
+    quadOut: (t: number): number => 1 - (1 - t) * (1 - t),
+    quadInOut: (t: number): number => t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2,
+
+    // Cubic
+    cubicIn: (t: number): number => t * t * t,
+    cubicOut: (t: number): number => 1 - Math.pow(1 - t, 3),
+    cubicInOut: (t: number): number => t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2,
+
+    // Exponential
+    expoIn: (t: number): number => t === 0 ? 0 : Math.pow(2, 10 * t - 10),
+    expoOut: (t: number): number => t === 1 ? 1 : 1 - Math.pow(2, -10 * t),
+    expoInOut: (t: number): number => {
+        if (t === 0) return 0;
+        if (t === 1) return 1;
+        if (t < 0.5) return Math.pow(2, 20 * t - 10) / 2;
+        return (2 - Math.pow(2, -20 * t + 10)) / 2;
+    },
+
+    // Bounce
+    bounceOut: (t: number): number => {
+        const n1 = 7.5625;
+        const d1 = 2.75;
+        if (t < 1 / d1) return n1 * t * t;
+        if (t < 2 / d1) return n1 * (t -= 1.5 / d1) * t + 0.75;
+        if (t < 2.5 / d1) return n1 * (t -= 2.25 / d1) * t + 0.9375;
+        return n1 * (t -= 2.625 / d1) * t + 0.984375;
+    },
+    bounceIn: (t: number): number => 1 - Easing.bounceOut(1 - t),
+    bounceInOut: (t: number): number =>
+        t < 0.5 ? (1 - Easing.bounceOut(1 - 2 * t)) / 2 : (1 + Easing.bounceOut(2 * t - 1)) / 2,
+
+    // Elastic, with the default amplitude and period
+    elasticIn: elasticIn(),
+    elasticOut: elasticOut(),
+    elasticInOut: elasticInOut(),
+
+    // Back, with the default overshoot
+    backIn: backIn(),
+    backOut: backOut(),
+    backInOut: backInOut()
+};
+
+/**
+ * The curve CSS cubic-bezier() draws from (0, 0) to (1, 1) through control points
+ * (x1, y1) and (x2, y2), the form most animation tools export. x1 and x2 must be in
+ * 0-1; y1 and y2 can go outside it to overshoot.
+ */
+export function cubicBezier(x1: number, y1: number, x2: number, y2: number): EasingFunction {
+    const bezier = (t: number, p1: number, p2: number): number =>
+        3 * (1 - t) * (1 - t) * t * p1 + 3 * (1 - t) * t * t * p2 + t * t * t;
+    const slope = (t: number, p1: number, p2: number): number =>
+        3 * (1 - t) * (1 - t) * p1 + 6 * (1 - t) * t * (p2 - p1) + 3 * t * t * (1 - p2);
+
+    // Find the curve parameter for x, by Newton's method and bisection when that stalls
+    const solve = (x: number): number => {
+        let t = x;
+        for (let i = 0; i < 8; i++) {
+            const error = bezier(t, x1, x2) - x;
+            if (Math.abs(error) < 1e-7) return t;
+            const d = slope(t, x1, x2);
+            if (Math.abs(d) < 1e-6) break;
+            t -= error / d;
+        }
+
+        let low = 0;
+        let high = 1;
+        t = x;
+        for (let i = 0; i < 40 && high - low > 1e-7; i++) {
+            if (bezier(t, x1, x2) < x) low = t; else high = t;
+            t = (low + high) / 2;
+        }
+        return t;
+    };
+
+    return (t: number): number => {
+        if (t <= 0) return 0;
+        if (t >= 1) return 1;
+        return bezier(solve(t), y1, y2);
+    };
+}
+
+/**
+ * Jump between count flat steps instead of moving smoothly, as in CSS steps().
+ * With 'end' the first jump comes after the first step and the last lands on 1;
+ * 'start' jumps right away, 'both' at both ends and 'none' at neither.
+ */
+export function steps(count: number, position: StepPosition = 'end'): EasingFunction {
+    const jumps = Math.max(position === 'both' ? count + 1 : position === 'none' ? count - 1 : count, 1);
+    return (t: number): number => {
+        if (t >= 1) return 1;
+        if (t <= 0) return position === 'start' || position === 'both' ? 1 / jumps : 0;
+
+        let step = Math.floor(t * count);
+        if (position === 'start' || position === 'both') step++;
+        return Math.min(step / jumps, 1);
+    };
+}
+
+// Springs past the end and settles. Amplitude above 1 overshoots further, a shorter period wobbles faster
+export function elasticOut(amplitude: number = 1, period: number = 0.3): EasingFunction {
+    const a = Math.max(amplitude, 1);
+    const shift = period / (2 * Math.PI) * Math.asin(1 / a);
+    return (t: number): number => {
+        if (t <= 0) return 0;
+        if (t >= 1) return 1;
+        return a * Math.pow(2, -10 * t) * Math.sin((t - shift) * (2 * Math.PI) / period) + 1;
+    };
+}
+
+export function elasticIn(amplitude: number = 1, period: number = 0.3): EasingFunction {
+    const out = elasticOut(amplitude, period);
+    return (t: number): number => 1 - out(1 - t);
+}
+
+export function elasticInOut(amplitude: number = 1, period: number = 0.45): EasingFunction {
+    const out = elasticOut(amplitude, period);
+    return (t: number): number => t < 0.5 ? (1 - out(1 - 2 * t)) / 2 : (1 + out(2 * t - 1)) / 2;
+}
+
+// Pulls back before setting off. Higher overshoot pulls back further
+export function backIn(overshoot: number = DEFAULT_OVERSHOOT): EasingFunction {
+    return (t: number): number => t * t * ((overshoot + 1) * t - overshoot);
+}
+
+export function backOut(overshoot: number = DEFAULT_OVERSHOOT): EasingFunction {
+    const ease = backIn(overshoot);
+    return (t: number): number => 1 - ease(1 - t);
+}
+
+export function backInOut(overshoot: number = DEFAULT_OVERSHOOT): EasingFunction {
+    const ease = backIn(overshoot * 1.525);
+    return (t: number): number => t < 0.5 ? ease(2 * t) / 2 : 1 - ease(2 - 2 * t) / 2;
+}
+
+/**
+ * A curve through [t, value] points, e.g. sampled from a curve editor, joined by
+ * straight lines. Points are sorted by t; outside their range the curve holds its
+ * first or last value.
+ */
+export function fromPoints(points: [number, number][]): EasingFunction {
+    const sorted = [...points].sort((a, b) => a[0] - b[0]);
+    if (sorted.length === 0) return Easing.linear;
+
+    return (t: number): number => {
+        const next = sorted.findIndex(([x]) => x > t);
+        if (next === -1) return sorted[sorted.length - 1][1];
+        if (next === 0) return sorted[0][1];
+
+        const [x0, y0] = sorted[next - 1];
+        const [x1, y1] = sorted[next];
+        return y0 + (y1 - y0) * (t - x0) / (x1 - x0);
+    };
+}
+
+const registry: Map<string, EasingFunction> = new Map(Object.entries(Easing));
+
+/**
+ * Make an easing available by name, so data files can refer to it wherever they
+ * name an EasingType. Registering a built-in name replaces it.
+ */
+export function registerEasing(name: string, easing: EasingFunction): void {
+    registry.set(name, easing);
+}
+
+/**
+ * Look up an easing by registered name, such as an EasingType. Also understands
+ * 'cubic-bezier(x1, y1, x2, y2)' and 'steps(count, position)' as written in CSS.
+ * Returns undefined for anything else.
+ */
+export function getEasing(name: string): EasingFunction | undefined {
+    const registered = registry.get(name);
+    if (registered) return registered;
+
+    const match = name.trim().match(/^(cubic-?bezier|steps)\((.*)\)$/i);
+    if (!match) return undefined;
+
+    const args = match[2].split(',').map(arg => arg.trim());
+    if (match[1].toLowerCase() === 'steps') {
+        const count = parseInt(args[0], 10);
+        const position = (args[1] ?? 'end').replace('jump-', '') as StepPosition;
+        if (!(count > 0) || !['start', 'end', 'both', 'none'].includes(position)) return undefined;
+        return steps(count, position);
+    }
+
+    const values = args.map(Number);
+    if (values.length !== 4 || values.some(isNaN)) return undefined;
+    return cubicBezier(values[0], values[1], values[2], values[3]);
+}
+
+// Easing given as a function or a name for getEasing. Unknown names fall back to linear.
+export function resolveEasing(easing: EasingFunction | string | undefined): EasingFunction | undefined {
+    if (typeof easing !== 'string') return easing;
+
+    const resolved = getEasing(easing);
+    if (!resolved) {
+        logger.warn(`Unknown easing: ${easing}, using linear`);
+        return Easing.linear;
+    }
+    return resolved;
+}
@@ -1,3 +1,6 @@
+import { normalizeColor } from './color';
+import { logger } from './logger';
+
 export interface ColorMap {
     [key: string]: string;  // Maps single-char aliases to full color values
 }
@@ -5,39 +8,47 @@ export interface ColorMap {
 export interface TextSegment {
     text: string;
     color: string;
+    alias?: string;     // Color map alias the color was given by, if any
 }
 
 export class TextParser {
     private static readonly COLOR_PATTERN = /\{([^}]+)\}([^{]*)/g;
-    private static readonly HEX_COLOR_PATTERN = /^#[0-9A-Fa-f]{6}$/;
 
     constructor(private colorMap: ColorMap) {}
 
+    public setColorMap(colorMap: ColorMap): void {
+        this.colorMap = colorMap;
+    }
+
     public parse(text: string): TextSegment[] {
         const segments: TextSegment[] = [];
         let lastIndex = 0;
-        let currentColor = '#FFFFFF';  // Default color
-        const colorStack: string[] = [];
+        let currentColor = '#FFFFFFFF';  // Default color
+        let currentAlias: string | undefined;
+        const colorStack: { color: string, alias?: string }[] = [];
 
         text.replace(TextParser.COLOR_PATTERN, (match, color, content, offset) => {
             // Add any text before this color tag
             if (offset > lastIndex) {
                 segments.push({
                     text: text.slice(lastIndex, offset),
-                    color: currentColor
+                    color: currentColor,
+                    alias: currentAlias
                 });
             }
 
             if (color === '/') {
                 // Pop color from stack
                 colorStack.pop();
-                currentColor = colorStack[colorStack.length - 1] || '#FFFFFF';
+                currentColor = colorStack[colorStack.length - 1]?.color || '#FFFFFFFF';
+                currentAlias = colorStack[colorStack.length - 1]?.alias;
             } else {
                 // Determine color from alias or hex
                 const newColor = this.resolveColor(color);
                 if (newColor) {
                     currentColor = newColor;
-                    colorStack.push(currentColor);
+                    currentAlias = this.isAlias(color) ? color : undefined;
+                    colorStack.push({ color: currentColor, alias: currentAlias });
                 }
             }
 
@@ -45,7 +56,8 @@ export class TextParser {
             if (content) {
                 segments.push({
                     text: content,
-                    color: currentColor
+                    color: currentColor,
+                    alias: currentAlias
                 });
             }
 
@@ -57,7 +69,8 @@ export class TextParser {
         if (lastIndex < text.length) {
             segments.push({
                 text: text.slice(lastIndex),
-                color: currentColor
+                color: currentColor,
+                alias: currentAlias
             });
         }
 
@@ -65,12 +78,15 @@ export class TextParser {
     }
 
     private resolveColor(color: string): string {
-        // If it's a hex color, validate and return it
-        if (color.startsWith('#')) {
-            return TextParser.HEX_COLOR_PATTERN.test(color) ? color : '#FFFFFF';
+        // Aliases first, then anything parseColor reads, such as hex, rgb() or named colors
+        const resolved = normalizeColor(this.isAlias(color) ? this.colorMap[color] : color);
+        if (!resolved) {
+            logger.warn(`Unknown color in text markup: ${color}`);
         }
-        
-        // Otherwise look up in color map
-        return this.colorMap[color] || '#FFFFFF';
+        return resolved ?? '#FFFFFFFF';
+    }
+
+    private isAlias(color: string): boolean {
+        return Object.prototype.hasOwnProperty.call(this.colorMap, color);
     }
 } 
\ No newline at end of file
@@ -0,0 +1,229 @@
+import { Camera, CameraOptions } from './camera';
+import { CameraEffects, KickOptions, ShakeOptions, ZoomPunchOptions } from './camera-effects';
+import { EasingFunction, Rect, Tile, TileId, Viewport, ZoomOptions } from './types';
+import { logger } from './util/logger';
+
+export interface ViewOptions {
+    x?: number;                 // Initial top-left, in cells
+    y?: number;
+    width: number;              // Cells shown at zoom 1
+    height: number;
+    zoom?: number;
+    screen?: Rect;              // Where on the output to draw, in CSS pixels (default: all of it)
+    camera?: CameraOptions;
+}
+
+/**
+ * One window onto the world: a viewport with its own camera, camera effects and
+ * zoom. A Display always has a main view filling its output, and can present more
+ * views on top of it, e.g. a picture-in-picture map. Views only decide what part
+ * of the world is shown where; tiles and animations belong to the Display.
+ */
+export class View {
+    public readonly screen?: Rect;
+
+    private viewport: Viewport;
+    private camera: Camera;
+    private cameraEffects: CameraEffects = new CameraEffects();
+    private zoomAnimation: {
+        startZoom: number,
+        endZoom: number,
+        anchorX: number,
+        anchorY: number,
+        duration: number,           // Milliseconds
+        easing: EasingFunction,
+        startTime: number | null    // Set on the first frame after setZoom
+    } | null = null;
+    private lastPresented: Viewport | null = null;
+
+    constructor(
+        options: ViewOptions,
+        private readonly worldBounds: { width: number, height: number } | null   // null when unbounded
+    ) {
+        this.screen = options.screen;
+        this.viewport = {
+            x: 0,
+            y: 0,
+            width: options.width,
+            height: options.height,
+            zoom: options.zoom ?? 1
+        };
+        this.camera = new Camera(options.camera);
+        this.setPosition(options.x ?? 0, options.y ?? 0, true);
+    }
+
+    public getViewport(): Readonly<Viewport> {
+        return { ...this.viewport };
+    }
+
+    public setPosition(x: number, y: number, force: boolean = false): void {
+        if (!force && this.viewport.x === x && this.viewport.y === y) return;
+
+        logger.debug(`Setting viewport to (${x},${y})`);
+
+        if (!this.worldBounds) {
+            this.viewport.x = x;
+            this.viewport.y = y;
+            return;
+        }
+
+        // When zoomed out past the world size, center the world instead
+        const visible = this.getVisibleViewport();
+        const clampAxis = (value: number, worldSize: number, visibleSize: number) =>
+            visibleSize >= worldSize ?
+                (worldSize - visibleSize) / 2 :
+                Math.max(0, Math.min(value, worldSize - visibleSize));
+        this.viewport.x = clampAxis(x, this.worldBounds.width, visible.width);
+        this.viewport.y = clampAxis(y, this.worldBounds.height, visible.height);
+    }
+
+    public getZoom(): number {
+        return this.viewport.zoom ?? 1;
+    }
+
+    /**
+     * Zoom the view, keeping the anchor point where it is on screen. The output
+     * stays the same size, so zooming out below 1 shows more cells, e.g. for an
+     * overview map. Zoom is applied when presenting, tiles are not redrawn.
+     */
+    public setZoom(zoom: number, options: ZoomOptions = {}): void {
+        if (zoom <= 0) {
+            logger.warn(`Attempted to set non-positive zoom: ${zoom}`);
+            return;
+        }
+
+        const visible = this.getVisibleViewport();
+        const anchorX = options.anchorX ?? visible.x + visible.width / 2;
+        const anchorY = options.anchorY ?? visible.y + visible.height / 2;
+
+        if (!options.duration) {
+            this.zoomAnimation = null;
+            this.applyZoom(zoom, anchorX, anchorY);
+            return;
+        }
+
+        this.zoomAnimation = {
+            startZoom: this.getZoom(),
+            endZoom: zoom,
+            anchorX,
+            anchorY,
+            duration: options.duration * 1000,
+            easing: options.easing ?? (t => t),
+            startTime: null
+        };
+    }
+
+    public getCamera(): Camera {
+        return this.camera;
+    }
+
+    /**
+     * Add trauma-based screen shake. Trauma stacks up to 1 and decays over time.
+     * Like kick and zoomPunch, this only offsets how the view is presented; tiles
+     * and getViewport() are unaffected.
+     */
+    public shake(options: ShakeOptions = {}): void {
+        this.cameraEffects.shake(options);
+    }
+
+    public kick(x: number, y: number, options: KickOptions = {}): void {
+        this.cameraEffects.kick(x, y, options);
+    }
+
+    public zoomPunch(amount: number, options: ZoomPunchOptions = {}): void {
+        this.cameraEffects.zoomPunch(amount, options);
+    }
+
+    public clearCameraEffects(): void {
+        this.cameraEffects.clear();
+    }
+
+    // Advance zoom animation and camera for this frame
+    public update(timestamp: number, getTile: (tileId: TileId) => Tile | undefined): void {
+        this.updateZoomAnimation(timestamp);
+
+        const cameraPosition = this.camera.update(timestamp, this.getVisibleViewport(), getTile);
+        if (cameraPosition) {
+            this.setPosition(cameraPosition.x, cameraPosition.y);
+        }
+    }
+
+    // The world rectangle currently on screen, with zoom applied
+    public getVisibleViewport(): Viewport {
+        const zoom = this.getZoom();
+        return {
+            x: this.viewport.x,
+            y: this.viewport.y,
+            width: this.viewport.width / zoom,
+            height: this.viewport.height / zoom
+        };
+    }
+
+    // The visible rectangle with camera effects applied. Zooming shrinks or grows it
+    // around its center, and the renderer stretches it over the output.
+    public getPresentedViewport(timestamp: number): Viewport {
+        const visible = this.getVisibleViewport();
+        if (!this.cameraEffects.isActive()) {
+            return visible;
+        }
+
+        const offset = this.cameraEffects.update(timestamp);
+        const width = visible.width / offset.zoom;
+        const height = visible.height / offset.zoom;
+        return {
+            x: visible.x + offset.x + (visible.width - width) / 2,
+            y: visible.y + offset.y + (visible.height - height) / 2,
+            width,
+            height
+        };
+    }
+
+    // Record what was presented. Returns whether it differs from last time, in which
+    // case the whole view has to be presented rather than just the dirty cells.
+    public markPresented(presented: Viewport): boolean {
+        const previous = this.lastPresented;
+        this.lastPresented = presented;
+        return !previous ||
+            previous.x !== presented.x || previous.y !== presented.y ||
+            previous.width !== presented.width || previous.height !== presented.height;
+    }
+
+    // What was last handed to the renderer, or null if nothing has been presented yet
+    public getLastPresented(): Readonly<Viewport> | null {
+        return this.lastPresented;
+    }
+
+    // Force a full present next frame, e.g. after the renderer was cleared
+    public invalidate(): void {
+        this.lastPresented = null;
+    }
+
+    private updateZoomAnimation(timestamp: number): void {
+        const animation = this.zoomAnimation;
+        if (!animation) return;
+
+        if (animation.startTime === null) {
+            animation.startTime = timestamp;
+        }
+
+        const progress = Math.min(1, (timestamp - animation.startTime) / animation.duration);
+        const zoom = animation.startZoom +
+            (animation.endZoom - animation.startZoom) * animation.easing(progress);
+        this.applyZoom(zoom, animation.anchorX, animation.anchorY);
+
+        if (progress >= 1) {
+            this.zoomAnimation = null;
+        }
+    }
+
+    // Change zoom while keeping the anchor point at the same spot on screen
+    private applyZoom(zoom: number, anchorX: number, anchorY: number): void {
+        const before = this.getVisibleViewport();
+        const fractionX = (anchorX - before.x) / before.width;
+        const fractionY = (anchorY - before.y) / before.height;
+
+        this.viewport.zoom = zoom;
+        const after = this.getVisibleViewport();
+        this.setPosition(anchorX - fractionX * after.width, anchorY - fractionY * after.height, true);
+    }
+}